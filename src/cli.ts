@@ -0,0 +1,375 @@
+import { appendFile, readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { SpotifyPreviewClient } from "./client";
+import { LogLevel, PreviewResult } from "./types/index";
+
+/**
+ * Output formats supported by the command-line tool.
+ */
+type OutputFormat = "text" | "json" | "ndjson" | "csv";
+
+/**
+ * Streams used by the command-line tool, injectable for testing.
+ */
+export interface CliIO {
+  stdin: NodeJS.ReadableStream & { isTTY?: boolean };
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+}
+
+/**
+ * A lookup result as printed and stored in checkpoint files.
+ */
+interface CliResult {
+  input: string;
+  trackId: string | null;
+  previewUrl: string | null;
+  error: string | null;
+}
+
+const OUTPUT_FORMATS: OutputFormat[] = ["text", "json", "ndjson", "csv"];
+
+const USAGE = `Usage: spotify-audio-previews [options] <id-or-url...>
+
+Looks up Spotify audio preview URLs. Inputs are read from the arguments,
+from --file, or from stdin (one per line) when neither is given or "-" is passed.
+
+Options:
+  -f, --file <path>         Read inputs from a file, one per line
+  -o, --format <format>     Output format: text, json, ndjson or csv (default: text)
+  -c, --concurrency <n>     Number of lookups run at the same time (default: 5)
+  -t, --timeout <ms>        Timeout for each lookup, in milliseconds
+      --checkpoint <path>   Record finished lookups in this file and skip them on the next run
+  -v, --verbose             Log progress to stderr
+  -d, --debug               Log detailed request information to stderr
+  -h, --help                Show this help
+`;
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_LOOKUP_FAILED = 1;
+const EXIT_USAGE = 2;
+
+/**
+ * Runs the command-line tool.
+ *
+ * @param argv - The command-line arguments, without the node and script paths
+ * @param io - The streams to read inputs from and write results and logs to
+ * @returns The process exit code: 0 on success, 1 if any lookup failed, 2 on usage errors
+ */
+async function runCli(
+  argv: string[],
+  io: CliIO = process as unknown as CliIO
+): Promise<number> {
+  let args: ReturnType<typeof parseCliArgs>;
+  try {
+    args = parseCliArgs(argv);
+  } catch (error) {
+    io.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  if (args.values.help) {
+    io.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+
+  const format = (args.values.format ?? "text") as OutputFormat;
+  const concurrency =
+    args.values.concurrency !== undefined
+      ? Number(args.values.concurrency)
+      : undefined;
+  const timeoutMs =
+    args.values.timeout !== undefined ? Number(args.values.timeout) : undefined;
+
+  if (!OUTPUT_FORMATS.includes(format)) {
+    return usageError(io, `Unknown format "${format}".`);
+  }
+  if (
+    concurrency !== undefined &&
+    (!Number.isInteger(concurrency) || concurrency < 1)
+  ) {
+    return usageError(io, "--concurrency must be a positive integer.");
+  }
+  if (timeoutMs !== undefined && !(timeoutMs > 0)) {
+    return usageError(io, "--timeout must be a positive number.");
+  }
+
+  const level = args.values.debug
+    ? LogLevel.DEBUG
+    : args.values.verbose
+    ? LogLevel.INFO
+    : LogLevel.NONE;
+  const client = new SpotifyPreviewClient({
+    logger: {
+      level,
+      custom: (logLevel, message, data) =>
+        io.stderr.write(
+          `[spotify-audio-previews ${logLevel}] ${message}${
+            data !== undefined ? ` ${formatLogData(data)}` : ""
+          }\n`
+        ),
+    },
+  });
+
+  let inputs: string[];
+  try {
+    inputs = await readInputs(args.positionals, args.values.file, io);
+  } catch (error) {
+    io.stderr.write(`Failed to read inputs: ${(error as Error).message}\n`);
+    return EXIT_USAGE;
+  }
+  if (inputs.length === 0) {
+    return usageError(io, "No track IDs or URLs given.");
+  }
+
+  const checkpointPath = args.values.checkpoint;
+  const done = checkpointPath
+    ? await readCheckpoint(checkpointPath)
+    : new Map<string, CliResult>();
+  const pending = [...new Set(inputs.filter((input) => !done.has(input)))];
+  if (done.size > 0) {
+    io.stderr.write(
+      `Resuming from checkpoint: ${inputs.length - pending.length} of ${
+        inputs.length
+      } inputs already done.\n`
+    );
+  }
+
+  let checkpoint: Promise<void> = Promise.resolve();
+  const results = await client.getPreviews(pending, {
+    concurrency,
+    timeoutMs,
+    onProgress: ({ result }) => {
+      const cliResult = toCliResult(result);
+      done.set(result.input, cliResult);
+      // Failed lookups are not recorded so that they are retried on the next run
+      if (checkpointPath && !cliResult.error) {
+        checkpoint = checkpoint.then(() =>
+          appendCheckpoint(checkpointPath, cliResult)
+        );
+      }
+    },
+  });
+  await checkpoint;
+
+  for (const result of results) {
+    done.set(result.input, toCliResult(result));
+  }
+  const output = inputs.map((input) => done.get(input) as CliResult);
+  io.stdout.write(formatResults(output, format));
+
+  return output.some((result) => result.error) ? EXIT_LOOKUP_FAILED : EXIT_OK;
+}
+
+/**
+ * Parses the command-line arguments.
+ *
+ * @param argv - The command-line arguments
+ * @returns The parsed options and positional arguments
+ * @throws {TypeError} If an unknown option is given or an option is missing its value
+ */
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      file: { type: "string", short: "f" },
+      format: { type: "string", short: "o" },
+      concurrency: { type: "string", short: "c" },
+      timeout: { type: "string", short: "t" },
+      checkpoint: { type: "string" },
+      verbose: { type: "boolean", short: "v" },
+      debug: { type: "boolean", short: "d" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
+
+/**
+ * Writes a usage error to stderr.
+ *
+ * @param io - The streams to write to
+ * @param message - The error message
+ * @returns The usage error exit code
+ */
+function usageError(io: CliIO, message: string): number {
+  io.stderr.write(`${message}\n\n${USAGE}`);
+  return EXIT_USAGE;
+}
+
+/**
+ * Collects inputs from the arguments, an input file and stdin.
+ * Blank lines and lines starting with "#" are ignored.
+ *
+ * @param positionals - The positional arguments
+ * @param file - Path of a file with one input per line
+ * @param io - The streams to read stdin from
+ * @returns The inputs, in order
+ */
+async function readInputs(
+  positionals: string[],
+  file: string | undefined,
+  io: CliIO
+): Promise<string[]> {
+  const inputs = positionals.filter((input) => input !== "-");
+  const readStdin =
+    positionals.includes("-") ||
+    (positionals.length === 0 && !file && !io.stdin.isTTY);
+
+  if (file) {
+    inputs.push(...splitLines(await readFile(file, "utf8")));
+  }
+  if (readStdin) {
+    let text = "";
+    for await (const chunk of io.stdin) {
+      text += chunk.toString();
+    }
+    inputs.push(...splitLines(text));
+  }
+
+  return inputs;
+}
+
+/**
+ * Splits text into trimmed, non-empty, non-comment lines.
+ */
+function splitLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+}
+
+/**
+ * Reads the results recorded in a checkpoint file. A missing file is treated as
+ * an empty checkpoint, and unparseable lines (e.g. one cut short by a crash) are skipped.
+ * A final line cut short is terminated so that new records start on their own line.
+ *
+ * @param path - Path of the checkpoint file
+ * @returns The recorded results, keyed by input
+ */
+async function readCheckpoint(path: string): Promise<Map<string, CliResult>> {
+  const done = new Map<string, CliResult>();
+
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return done;
+    throw error;
+  }
+  if (text && !text.endsWith("\n")) {
+    await appendFile(path, "\n");
+  }
+
+  for (const line of text.split("\n")) {
+    try {
+      const result = JSON.parse(line) as CliResult;
+      if (typeof result?.input === "string") done.set(result.input, result);
+    } catch {
+      // Ignore partial lines
+    }
+  }
+
+  return done;
+}
+
+/**
+ * Appends a finished lookup to a checkpoint file.
+ *
+ * @param path - Path of the checkpoint file
+ * @param result - The finished lookup
+ */
+async function appendCheckpoint(
+  path: string,
+  result: CliResult
+): Promise<void> {
+  await appendFile(path, `${JSON.stringify(result)}\n`);
+}
+
+/**
+ * Converts a getPreviews result to its printable form.
+ */
+function toCliResult(result: PreviewResult): CliResult {
+  return {
+    input: result.input,
+    trackId: result.trackId,
+    previewUrl: result.previewUrl,
+    error: result.error ? result.error.message : null,
+  };
+}
+
+/**
+ * Formats results in the given output format.
+ *
+ * @param results - The results to format, in input order
+ * @param format - The output format
+ * @returns The formatted output, ending with a newline
+ */
+function formatResults(results: CliResult[], format: OutputFormat): string {
+  switch (format) {
+    case "json":
+      return `${JSON.stringify(results, null, 2)}\n`;
+    case "ndjson":
+      return results.map((result) => `${JSON.stringify(result)}\n`).join("");
+    case "csv":
+      return [
+        "input,trackId,previewUrl,error",
+        ...results.map((result) =>
+          [result.input, result.trackId, result.previewUrl, result.error]
+            .map(escapeCsvField)
+            .join(",")
+        ),
+      ]
+        .map((line) => `${line}\n`)
+        .join("");
+    case "text":
+      return results
+        .map(
+          (result) =>
+            `${result.input}\t${
+              result.error
+                ? `error: ${result.error}`
+                : result.previewUrl ?? "no preview"
+            }\n`
+        )
+        .join("");
+  }
+}
+
+/**
+ * Escapes a CSV field, quoting it if it contains a comma, quote or newline.
+ */
+function escapeCsvField(value: string | null): string {
+  if (value === null) return "";
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Formats log data for a single stderr line. Errors, which JSON.stringify
+ * would print as `{}`, are written as `name: message` unless they define
+ * `toJSON`.
+ */
+function formatLogData(data: unknown): string {
+  if (typeof data === "string") return data;
+  if (data instanceof Error && typeof (data as any).toJSON !== "function") {
+    return formatError(data);
+  }
+  try {
+    return JSON.stringify(data, (_key, value) =>
+      value instanceof Error ? formatError(value) : value
+    );
+  } catch {
+    return String(data);
+  }
+}
+
+/**
+ * Formats an error as `name: message`.
+ */
+function formatError(error: Error): string {
+  return `${error.name}: ${error.message}`;
+}
+
+export { runCli };
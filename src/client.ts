@@ -0,0 +1,1489 @@
+import { createWriteStream } from "node:fs";
+import { rm } from "node:fs/promises";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import {
+  extractSpotifyIdFromUrl,
+  parseSpotifyReference,
+  validateSpotifyId,
+} from "./utils/parser.utils";
+import { isShortLink, resolveShortLink } from "./utils/shortlink.utils";
+import {
+  SpotifyPreviewError,
+  InvalidMarketError,
+  NetworkError,
+  NoPreviewAvailableError,
+  PreviewDownloadError,
+  RegionRestrictedError,
+  SpotifyApiError,
+} from "./errors";
+import { createRequestId, Logger } from "./utils/logger.utils";
+import {
+  extractEmbedEntity,
+  extractPreviewUrl,
+  toCollectionPreviews,
+  toEpisodePreview,
+  toTrackInfo,
+} from "./utils/embed.utils";
+import { MemoryCacheStore, withPreviewCache } from "./utils/cache.utils";
+import { parseRetryAfter, withRetry } from "./utils/retry.utils";
+import {
+  createTransport,
+  HttpTransport,
+  httpRequest,
+  mergeHeaders,
+} from "./utils/http.utils";
+import { RateLimiter } from "./utils/rate-limit.utils";
+import { getEventContext, PreviewEventEmitter } from "./utils/events.utils";
+import { StatsCollector } from "./utils/stats.utils";
+import { toPreviewFailure } from "./utils/result.utils";
+import { PreviewWatcher } from "./utils/watch.utils";
+import { isPreviewUrl, verifyPreviewUrl } from "./utils/verify.utils";
+import { EmbedProvider, fetchEmbedHtml } from "./providers/embed.provider";
+import {
+  AbortScope,
+  createAbortScope,
+  getAbortError,
+  throwIfAborted,
+} from "./utils/abort.utils";
+import { mapWithConcurrency } from "./utils/concurrency.utils";
+import { checkAudioResponse, createAudioStream } from "./utils/download.utils";
+import {
+  CollectionPreviews,
+  CollectionType,
+  DownloadPreviewOptions,
+  DownloadPreviewResult,
+  DownloadTarget,
+  EpisodePreview,
+  EpisodeType,
+  GetCollectionPreviewsOptions,
+  GetEpisodePreviewOptions,
+  GetPreviewAvailabilityOptions,
+  GetPreviewOptions,
+  GetPreviewResultOptions,
+  GetPreviewsOptions,
+  GetTrackInfoOptions,
+  MarketAvailability,
+  PreviewAvailability,
+  PreviewEventListener,
+  PreviewEventName,
+  PreviewLookupResult,
+  PreviewProvider,
+  PreviewProviderContext,
+  PreviewResult,
+  PreviewStats,
+  PreviewVerification,
+  RequestOptions,
+  SpotifyAudioPreviewsConfig,
+  SpotifyEntityType,
+  SpotifyReference,
+  TrackInfo,
+  VerifyPreviewOptions,
+  WatchPreviewsOptions,
+} from "./types/index";
+
+// Default number of in-flight requests for getPreviews
+const DEFAULT_CONCURRENCY = 5;
+
+// Provider used when no providers are configured
+const DEFAULT_PROVIDER = new EmbedProvider();
+
+/**
+ * A preview URL, the provider that answered and where the preview comes from.
+ */
+interface PreviewLookup {
+  previewUrl: string | null;
+  provider: string | null;
+  source: string | null;
+  matchConfidence: number | null;
+}
+
+/**
+ * A preview lookup and the market it was made for.
+ */
+interface MarketPreviewLookup extends PreviewLookup {
+  market: string | null;
+}
+
+// Default maximum size of a downloaded preview (10 MiB)
+const DEFAULT_MAX_DOWNLOAD_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Client for looking up Spotify audio previews.
+ *
+ * Each client has its own configuration, logger, default cache store, event
+ * listeners and statistics, so several clients with different settings can be
+ * used side by side.
+ */
+export class SpotifyPreviewClient {
+  private config: SpotifyAudioPreviewsConfig;
+  private logger: Logger;
+  private cacheStore = new MemoryCacheStore();
+  private rateLimiter?: RateLimiter;
+  private events: PreviewEventEmitter;
+  private stats: StatsCollector;
+
+  /**
+   * @param config - Configuration options for this client
+   * @param logger - Logger instance to use (defaults to a new logger built from `config.logger`)
+   */
+  constructor(config: SpotifyAudioPreviewsConfig = {}, logger?: Logger) {
+    this.config = { ...config };
+    this.logger = logger
+      ? logger.configure(config.logger ?? {})
+      : new Logger(config.logger);
+    // Listeners set through the configuration are read on every event
+    this.events = new PreviewEventEmitter(() => this.config.on);
+    this.stats = new StatsCollector(this.events);
+    this.rateLimiter = config.rateLimit
+      ? new RateLimiter(config.rateLimit)
+      : undefined;
+  }
+
+  /**
+   * Update the settings of this client.
+   *
+   * @param config - Configuration options, merged with the current ones
+   */
+  configure(config: SpotifyAudioPreviewsConfig): void {
+    this.config = { ...this.config, ...config };
+
+    if (config.logger) {
+      this.logger.configure(config.logger);
+    }
+    // Requests already waiting keep waiting on the previous limiter
+    if (config.rateLimit !== undefined) {
+      this.rateLimiter = config.rateLimit
+        ? new RateLimiter(config.rateLimit)
+        : undefined;
+    }
+  }
+
+  /**
+   * Number of requests currently waiting for the rate limit.
+   *
+   * @returns The queue depth, or 0 if no rate limit is configured
+   */
+  getRateLimitQueueDepth(): number {
+    return this.rateLimiter?.queueDepth ?? 0;
+  }
+
+  /**
+   * Adds a listener for a lifecycle event.
+   *
+   * @param event - Event name
+   * @param listener - Function called with the event payload
+   */
+  on<E extends PreviewEventName>(
+    event: E,
+    listener: PreviewEventListener<E>
+  ): void {
+    this.events.on(event, listener);
+  }
+
+  /**
+   * Adds a listener for a lifecycle event that is removed after its first call.
+   *
+   * @param event - Event name
+   * @param listener - Function called with the event payload
+   */
+  once<E extends PreviewEventName>(
+    event: E,
+    listener: PreviewEventListener<E>
+  ): void {
+    this.events.once(event, listener);
+  }
+
+  /**
+   * Removes a listener added with `on`.
+   *
+   * @param event - Event name
+   * @param listener - The listener to remove
+   */
+  off<E extends PreviewEventName>(
+    event: E,
+    listener: PreviewEventListener<E>
+  ): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Returns a snapshot of this client's runtime statistics.
+   *
+   * @returns Counts per outcome, response status and error class, and latency percentiles
+   */
+  getStats(): PreviewStats {
+    return this.stats.getStats();
+  }
+
+  /**
+   * Gets an audio preview url for a Spotify track.
+   *
+   * @param track - Either a track ID (e.g. "308Ir17KlNdlrbVLHWhlLe") or a track URL (e.g. "open.spotify.com/track/308Ir17KlNdlrbVLHWhlLe")
+   * @param options - Configuration options
+   * @returns The track preview URL, or null if no preview found and `throws` is false
+   * @throws {InvalidTrackIdError} If the track ID format is invalid
+   * @throws {InvalidSpotifyUrlError} If the Spotify URL is invalid
+   * @throws {InvalidMarketError} If `market` is not a two-letter country code
+   * @throws {NoPreviewAvailableError} If no preview is available and `throws` is true
+   * @throws {EmbedParseError} If the embed page cannot be parsed
+   * @throws {SpotifyApiError} If there's an issue with the Spotify API request
+   * @throws {SpotifyTimeoutError} If the request does not complete within `timeoutMs`
+   * @throws {SpotifyAbortError} If the request is cancelled through `signal`
+   */
+  async getPreview<T extends GetPreviewOptions = {}>(
+    track: string,
+    options?: T
+  ): Promise<T extends { throws: true } ? string : string | null> {
+    const log = this.getLogger(options);
+    const scope = this.createScope(options);
+    try {
+      return (await this.findPreview(track, options, scope.signal, log)) as any;
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  /**
+   * Gets audio preview urls for a list of Spotify tracks.
+   *
+   * Inputs are processed with bounded concurrency and a failure on one input
+   * does not reject the whole batch; the error is reported in that input's entry instead.
+   *
+   * @param tracks - A list of track IDs and/or track URLs
+   * @param options - Configuration options
+   * @returns One result per input, in the same order as `tracks`
+   */
+  async getPreviews(
+    tracks: string[],
+    options?: GetPreviewsOptions
+  ): Promise<PreviewResult[]> {
+    const log = this.getLogger(options);
+
+    const concurrency = Math.floor(options?.concurrency ?? DEFAULT_CONCURRENCY);
+    if (!(concurrency >= 1)) {
+      throw new RangeError(
+        `Invalid concurrency: ${options?.concurrency}. Must be at least 1.`
+      );
+    }
+
+    const market = this.getMarket(options);
+    const total = tracks.length;
+    let completed = 0;
+    log.info(`Processing ${total} tracks with concurrency ${concurrency}`);
+
+    return mapWithConcurrency(tracks, concurrency, async (input) => {
+      const startedAt = Date.now();
+      // The timeout applies to each track
+      const scope = this.createScope(options);
+      const result: PreviewResult = {
+        input,
+        trackId: null,
+        previewUrl: null,
+        provider: null,
+        source: null,
+        matchConfidence: null,
+        market,
+        error: null,
+      };
+
+      try {
+        result.trackId = await this.resolveSpotifyId(
+          input,
+          "track",
+          options,
+          scope.signal,
+          log
+        );
+        const lookup = await this.fetchPreview(
+          result.trackId,
+          options,
+          scope.signal,
+          log.child({ trackId: result.trackId }),
+          startedAt
+        );
+        result.previewUrl = lookup.previewUrl;
+        result.provider = lookup.provider;
+        result.source = lookup.source;
+        result.matchConfidence = lookup.matchConfidence;
+      } catch (error) {
+        result.error = toTrackError(error);
+        this.emitLookupError(result.error, result.trackId, startedAt, log);
+      } finally {
+        scope.dispose();
+      }
+
+      completed++;
+      log.debug(`Batch progress: ${completed}/${total}`);
+      options?.onProgress?.({ completed, total, result });
+
+      return result;
+    });
+  }
+
+  /**
+   * Watches the previews of a list of Spotify tracks, re-checking them with
+   * `getPreview` every `intervalMs` and emitting `added`, `removed` and
+   * `changed` events. The first round starts immediately.
+   *
+   * @param tracks - A list of track IDs and/or track URLs
+   * @param options - Schedule, state store and `getPreview` options
+   * @returns The watcher, to subscribe to its events and stop it
+   */
+  watchPreviews(
+    tracks: readonly string[],
+    options: WatchPreviewsOptions = {}
+  ): PreviewWatcher {
+    const { intervalMs, store, concurrency, ...previewOptions } = options;
+    const watcher = new PreviewWatcher(
+      tracks,
+      (track, signal) => this.getPreview(track, { ...previewOptions, signal }),
+      { intervalMs, store, concurrency },
+      this.getLogger(options)
+    );
+    void watcher.check();
+    return watcher;
+  }
+
+  /**
+   * Gets the audio preview url for a Spotify track, returning failures
+   * instead of throwing them.
+   *
+   * @param track - Either a track ID (e.g. "308Ir17KlNdlrbVLHWhlLe") or a track URL (e.g. "open.spotify.com/track/308Ir17KlNdlrbVLHWhlLe")
+   * @param options - Configuration options
+   * @returns `{ ok: true, ... }` with the preview URL, or `{ ok: false, reason, error }`
+   */
+  async getPreviewResult(
+    track: string,
+    options?: GetPreviewResultOptions
+  ): Promise<PreviewLookupResult> {
+    const log = this.getLogger(options);
+    const startedAt = Date.now();
+    const scope = this.createScope(options);
+    let trackId: string | null = null;
+
+    try {
+      trackId = await this.resolveSpotifyId(
+        track,
+        "track",
+        options,
+        scope.signal,
+        log
+      );
+      const { previewUrl, ...match } = await this.fetchPreview(
+        trackId,
+        { ...options, throws: false },
+        scope.signal,
+        log.child({ trackId }),
+        startedAt
+      );
+      return previewUrl
+        ? { ok: true, trackId, previewUrl, ...match, fetchedAt: new Date() }
+        : toPreviewFailure(new NoPreviewAvailableError(trackId), trackId);
+    } catch (error) {
+      const trackError = toTrackError(error);
+      this.emitLookupError(trackError, trackId, startedAt, log);
+      return toPreviewFailure(trackError, trackId);
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  /**
+   * Checks in which markets a Spotify track has a preview, looking it up once
+   * per market.
+   *
+   * @param track - Either a track ID (e.g. "308Ir17KlNdlrbVLHWhlLe") or a track URL (e.g. "open.spotify.com/track/308Ir17KlNdlrbVLHWhlLe")
+   * @param markets - ISO 3166-1 alpha-2 country codes (e.g. ["US", "DE", "JP"])
+   * @param options - Configuration options
+   * @returns The availability of the preview in each market, in the order of `markets`
+   * @throws {InvalidTrackIdError} If the track ID format is invalid
+   * @throws {InvalidSpotifyUrlError} If the Spotify URL is invalid
+   */
+  async getPreviewAvailability(
+    track: string,
+    markets: readonly string[],
+    options: GetPreviewAvailabilityOptions = {}
+  ): Promise<PreviewAvailability> {
+    const { concurrency: limit, ...previewOptions } = options;
+    const log = this.getLogger(options);
+
+    const concurrency = Math.floor(limit ?? DEFAULT_CONCURRENCY);
+    if (!(concurrency >= 1)) {
+      throw new RangeError(
+        `Invalid concurrency: ${limit}. Must be at least 1.`
+      );
+    }
+
+    const scope = this.createScope(options);
+    let trackId: string;
+    try {
+      trackId = await this.resolveSpotifyId(
+        track,
+        "track",
+        options,
+        scope.signal,
+        log
+      );
+    } finally {
+      scope.dispose();
+    }
+
+    const results = await mapWithConcurrency(
+      markets,
+      concurrency,
+      async (input): Promise<MarketAvailability> => {
+        const startedAt = Date.now();
+        const market = input.toUpperCase();
+        const marketLog = log.child({ trackId, market });
+        // The timeout applies to each market
+        const scope = this.createScope(options);
+        try {
+          const { previewUrl } = await this.fetchPreview(
+            trackId,
+            { ...previewOptions, market, throws: false },
+            scope.signal,
+            marketLog,
+            startedAt
+          );
+          return {
+            market,
+            available: previewUrl !== null,
+            previewUrl,
+            restricted: false,
+            error: null,
+          };
+        } catch (error) {
+          const marketError = toTrackError(error);
+          this.emitLookupError(marketError, trackId, startedAt, marketLog);
+          return {
+            market,
+            available: false,
+            previewUrl: null,
+            restricted: marketError instanceof RegionRestrictedError,
+            error: marketError,
+          };
+        } finally {
+          scope.dispose();
+        }
+      }
+    );
+
+    const available = results.filter((result) => result.available).length;
+    log.info(
+      `Preview available in ${available}/${results.length} markets for track ID: ${trackId}`
+    );
+    return { trackId, markets: results };
+  }
+
+  /**
+   * Downloads the audio preview of a Spotify track.
+   *
+   * The response must be MP3 audio: its content type and leading bytes are
+   * checked, and the download is stopped once it exceeds `maxBytes`. The
+   * timeout, if any, covers both the preview lookup and the download.
+   *
+   * @param track - Either a track ID (e.g. "308Ir17KlNdlrbVLHWhlLe") or a track URL (e.g. "open.spotify.com/track/308Ir17KlNdlrbVLHWhlLe")
+   * @param options - Where to deliver the audio (`to`) and other configuration options
+   * @returns A Readable for "stream", a Buffer for "buffer", or the path of the written file
+   * @throws {InvalidTrackIdError} If the track ID format is invalid
+   * @throws {InvalidSpotifyUrlError} If the Spotify URL is invalid
+   * @throws {NoPreviewAvailableError} If no preview is available
+   * @throws {PreviewDownloadError} If the download fails or the response is not MP3 audio
+   * @throws {SpotifyApiError} If there's an issue with the Spotify API request
+   * @throws {SpotifyTimeoutError} If the download does not complete within `timeoutMs`
+   * @throws {SpotifyAbortError} If the download is cancelled through `signal`
+   */
+  async downloadPreview<T extends DownloadTarget>(
+    track: string,
+    options: DownloadPreviewOptions & { to: T }
+  ): Promise<DownloadPreviewResult<T>> {
+    // The lookup shares the download's correlation ID
+    const requestId = options.requestId ?? createRequestId();
+    const log = this.getLogger({ ...options, requestId });
+    const {
+      to,
+      maxBytes = DEFAULT_MAX_DOWNLOAD_BYTES,
+      onProgress,
+      ...previewOptions
+    } = options;
+
+    // A single scope bounds the lookup and the download
+    const scope = this.createScope(options);
+
+    let audio: ReadableStream<Uint8Array>;
+    try {
+      const previewUrl = await this.findPreview(
+        track,
+        { ...previewOptions, throws: true },
+        scope.signal,
+        log
+      );
+      audio = await this.openPreviewAudio(
+        previewUrl,
+        options,
+        { maxBytes, onProgress, scope },
+        log
+      );
+    } catch (error) {
+      scope.dispose();
+      throw error;
+    }
+
+    // Node's and the DOM's ReadableStream typings differ only nominally
+    const readable = Readable.fromWeb(audio as any);
+
+    if (to === "stream") {
+      return readable as DownloadPreviewResult<T>;
+    }
+
+    try {
+      if (to === "buffer") {
+        const chunks: Buffer[] = [];
+        for await (const chunk of readable) {
+          chunks.push(chunk);
+        }
+        return Buffer.concat(chunks) as DownloadPreviewResult<T>;
+      }
+
+      try {
+        await pipeline(readable, createWriteStream(to));
+      } catch (error) {
+        // Don't leave a partial file behind
+        await rm(to, { force: true });
+        throw error;
+      }
+      log.info(`Saved preview to ${to}`);
+      return to as unknown as DownloadPreviewResult<T>;
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  /**
+   * Checks that a preview URL is reachable with a HEAD or ranged GET request,
+   * without downloading the audio.
+   *
+   * @param urlOrTrack - A preview URL, or a track ID, URL, URI or short link whose preview is looked up first
+   * @param options - Configuration options
+   * @returns `{ url, reachable, status, contentType, contentLength, latencyMs }`
+   * @throws {NoPreviewAvailableError} If a track is given and has no preview
+   * @throws {InvalidTrackIdError} If the track ID format is invalid
+   * @throws {InvalidSpotifyUrlError} If the Spotify URL is invalid
+   * @throws {SpotifyApiError} If there's an issue with the Spotify API request
+   * @throws {SpotifyTimeoutError} If the call does not complete within `timeoutMs`
+   * @throws {SpotifyAbortError} If the call is cancelled through `signal`
+   */
+  async verifyPreview(
+    urlOrTrack: string,
+    options: VerifyPreviewOptions = {}
+  ): Promise<PreviewVerification> {
+    // The lookup shares the verification's correlation ID
+    const requestId = options.requestId ?? createRequestId();
+    const log = this.getLogger({ ...options, requestId });
+    const { method = "HEAD", ...previewOptions } = options;
+
+    // A single scope bounds the lookup and the verification
+    const scope = this.createScope(options);
+
+    try {
+      const url = isPreviewUrl(urlOrTrack)
+        ? urlOrTrack
+        : await this.findPreview(
+            urlOrTrack,
+            { ...previewOptions, throws: true },
+            scope.signal,
+            log
+          );
+      return await verifyPreviewUrl(
+        this.getTransport(options),
+        url,
+        method,
+        scope.signal,
+        log
+      );
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  /**
+   * Gets the metadata of a Spotify track, including its audio preview url.
+   *
+   * @param track - Either a track ID (e.g. "308Ir17KlNdlrbVLHWhlLe") or a track URL (e.g. "open.spotify.com/track/308Ir17KlNdlrbVLHWhlLe")
+   * @param options - Configuration options
+   * @returns The track metadata
+   * @throws {InvalidTrackIdError} If the track ID format is invalid
+   * @throws {InvalidSpotifyUrlError} If the Spotify URL is invalid
+   * @throws {EmbedParseError} If the embed page cannot be parsed
+   * @throws {SpotifyApiError} If there's an issue with the Spotify API request
+   * @throws {SpotifyTimeoutError} If the request does not complete within `timeoutMs`
+   * @throws {SpotifyAbortError} If the request is cancelled through `signal`
+   */
+  async getTrackInfo(
+    track: string,
+    options?: GetTrackInfoOptions
+  ): Promise<TrackInfo> {
+    const log = this.getLogger(options);
+    const scope = this.createScope(options);
+
+    try {
+      const trackId = await this.resolveSpotifyId(
+        track,
+        "track",
+        options,
+        scope.signal,
+        log
+      );
+      const entity = await this.fetchEmbedEntity(
+        "track",
+        trackId,
+        options,
+        scope.signal,
+        log
+      );
+      const trackInfo = toTrackInfo(entity, trackId);
+
+      log.info(`Extracted metadata for track ID: ${trackId}`);
+      log.debug(`Track metadata`, trackInfo);
+      return trackInfo;
+    } catch (error) {
+      // Re-throw custom errors
+      if (error instanceof SpotifyPreviewError) {
+        throw error;
+      }
+      // Handle fetch or parsing errors
+      log.error(`Fetch or parsing error`, error);
+      throw new SpotifyApiError(
+        `Failed to retrieve track metadata: ${error.message}`,
+        undefined,
+        undefined,
+        { cause: error }
+      );
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  /**
+   * Gets the tracks of a Spotify album along with their audio preview urls.
+   *
+   * @param album - Either an album ID or an album URL (e.g. "open.spotify.com/album/4aawyAB9vmqN3uQ7FjRGTy")
+   * @param options - Configuration options
+   * @returns The album and its tracks
+   * @throws {InvalidSpotifyIdError} If the album ID format is invalid
+   * @throws {InvalidSpotifyUrlError} If the Spotify URL is invalid
+   * @throws {EmbedParseError} If the embed page cannot be parsed
+   * @throws {SpotifyApiError} If there's an issue with the Spotify API request
+   * @throws {SpotifyTimeoutError} If the request does not complete within `timeoutMs`
+   * @throws {SpotifyAbortError} If the request is cancelled through `signal`
+   */
+  async getAlbumPreviews(
+    album: string,
+    options?: GetCollectionPreviewsOptions
+  ): Promise<CollectionPreviews> {
+    return this.getCollectionPreviews("album", album, options);
+  }
+
+  /**
+   * Gets the tracks of a Spotify playlist along with their audio preview urls.
+   *
+   * @param playlist - Either a playlist ID or a playlist URL (e.g. "open.spotify.com/playlist/37i9dQZF1DXcBWIGoYBM5M")
+   * @param options - Configuration options
+   * @returns The playlist and its tracks
+   * @throws {InvalidSpotifyIdError} If the playlist ID format is invalid
+   * @throws {InvalidSpotifyUrlError} If the Spotify URL is invalid
+   * @throws {EmbedParseError} If the embed page cannot be parsed
+   * @throws {SpotifyApiError} If there's an issue with the Spotify API request
+   * @throws {SpotifyTimeoutError} If the request does not complete within `timeoutMs`
+   * @throws {SpotifyAbortError} If the request is cancelled through `signal`
+   */
+  async getPlaylistPreviews(
+    playlist: string,
+    options?: GetCollectionPreviewsOptions
+  ): Promise<CollectionPreviews> {
+    return this.getCollectionPreviews("playlist", playlist, options);
+  }
+
+  /**
+   * Gets the top tracks of a Spotify artist along with their audio preview urls.
+   *
+   * @param artist - Either an artist ID or an artist URL (e.g. "open.spotify.com/artist/0gxyHStUsqpMadRV0Di1Qt")
+   * @param options - Configuration options
+   * @returns The artist and their top tracks
+   * @throws {InvalidSpotifyIdError} If the artist ID format is invalid
+   * @throws {InvalidSpotifyUrlError} If the Spotify URL is invalid
+   * @throws {EmbedParseError} If the embed page cannot be parsed
+   * @throws {SpotifyApiError} If there's an issue with the Spotify API request
+   * @throws {SpotifyTimeoutError} If the request does not complete within `timeoutMs`
+   * @throws {SpotifyAbortError} If the request is cancelled through `signal`
+   */
+  async getArtistTopTrackPreviews(
+    artist: string,
+    options?: GetCollectionPreviewsOptions
+  ): Promise<CollectionPreviews> {
+    return this.getCollectionPreviews("artist", artist, options);
+  }
+
+  /**
+   * Gets the preview clip of a Spotify podcast episode along with its metadata.
+   *
+   * @param episode - Either an episode ID or an episode URL (e.g. "open.spotify.com/episode/512ojhOuo1ktJprKbVcKyQ")
+   * @param options - Configuration options
+   * @returns The episode, its show and its preview url (null if none is available)
+   * @throws {InvalidSpotifyIdError} If the episode ID format is invalid
+   * @throws {InvalidSpotifyUrlError} If the Spotify URL is invalid
+   * @throws {NoPreviewAvailableError} If no preview is available and `throws` is true
+   * @throws {EmbedParseError} If the embed page cannot be parsed
+   * @throws {SpotifyApiError} If there's an issue with the Spotify API request
+   * @throws {SpotifyTimeoutError} If the request does not complete within `timeoutMs`
+   * @throws {SpotifyAbortError} If the request is cancelled through `signal`
+   */
+  async getEpisodePreview(
+    episode: string,
+    options?: GetEpisodePreviewOptions
+  ): Promise<EpisodePreview> {
+    return this.getSpokenPreview("episode", episode, options);
+  }
+
+  /**
+   * Gets the preview clip of a Spotify audiobook chapter along with its metadata.
+   *
+   * @param chapter - Either a chapter ID or a chapter URL (e.g. "open.spotify.com/chapter/0D5wENdkdwbqlrHoaJ9g29")
+   * @param options - Configuration options
+   * @returns The chapter, its audiobook and its preview url (null if none is available)
+   * @throws {InvalidSpotifyIdError} If the chapter ID format is invalid
+   * @throws {InvalidSpotifyUrlError} If the Spotify URL is invalid
+   * @throws {NoPreviewAvailableError} If no preview is available and `throws` is true
+   * @throws {EmbedParseError} If the embed page cannot be parsed
+   * @throws {SpotifyApiError} If there's an issue with the Spotify API request
+   * @throws {SpotifyTimeoutError} If the request does not complete within `timeoutMs`
+   * @throws {SpotifyAbortError} If the request is cancelled through `signal`
+   */
+  async getChapterPreview(
+    chapter: string,
+    options?: GetEpisodePreviewOptions
+  ): Promise<EpisodePreview> {
+    return this.getSpokenPreview("chapter", chapter, options);
+  }
+
+  /**
+   * Parses a Spotify URL or URI, resolving short links (spotify.link) first.
+   *
+   * @param input - A Spotify URL, URI or short link
+   * @param options - Configuration options
+   * @returns The type and ID of the entity
+   * @throws {InvalidSpotifyUrlError} If the input is not a valid Spotify URL or URI
+   * @throws {SpotifyApiError} If a short link cannot be resolved
+   * @throws {SpotifyTimeoutError} If resolving a short link does not complete within `timeoutMs`
+   * @throws {SpotifyAbortError} If resolving a short link is cancelled through `signal`
+   */
+  async resolveReference(
+    input: string,
+    options?: RequestOptions
+  ): Promise<SpotifyReference> {
+    const log = this.getLogger(options);
+    if (!isShortLink(input)) {
+      return parseSpotifyReference(input, log);
+    }
+
+    const scope = this.createScope(options);
+    try {
+      const url = await this.resolveShortLink(
+        input,
+        options,
+        scope.signal,
+        log
+      );
+      return parseSpotifyReference(url, log);
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  /**
+   * Returns the logger for a call: a child of the client's logger, with the
+   * logger options provided for this call only and the call's correlation ID.
+   */
+  private getLogger(options: RequestOptions | undefined): Logger {
+    const log = options?.logger
+      ? this.logger.withOptions(options.logger)
+      : this.logger;
+    return log.child({ requestId: options?.requestId ?? createRequestId() });
+  }
+
+  /**
+   * Resolves the transport for a call: per-call options take precedence over
+   * the client ones, and every request shares the client's rate limiter.
+   */
+  private getTransport(options: RequestOptions | undefined): HttpTransport {
+    return {
+      ...createTransport(this.config, options),
+      rateLimiter: this.rateLimiter,
+      events: this.events,
+    };
+  }
+
+  /**
+   * Creates the scope of a call: its timeout, including every request and
+   * retry, and its caller-provided signal. Per-call options take precedence
+   * over the client ones.
+   */
+  private createScope(options: RequestOptions | undefined): AbortScope {
+    return createAbortScope(
+      options?.timeoutMs ?? this.config.timeoutMs,
+      options?.signal
+    );
+  }
+
+  /**
+   * Resolves the provider chain of a call: the per-call option takes
+   * precedence over the client one.
+   */
+  private getProviders(
+    options: GetPreviewOptions | undefined
+  ): PreviewProvider[] {
+    return options?.providers ?? this.config.providers ?? [DEFAULT_PROVIDER];
+  }
+
+  /**
+   * Returns the cache key of a lookup. Previews differ between markets and
+   * provider chains, so each combination has its own entry; lookups with
+   * the default chain keep the plain track ID key.
+   */
+  private getCacheKey(
+    trackId: string,
+    market: string | null,
+    options: GetPreviewOptions | undefined
+  ): string {
+    const chain = this.getProviders(options)
+      .map((provider) => provider.name)
+      .join(",");
+    const key = market ? `${trackId}:${market}` : trackId;
+    return chain === DEFAULT_PROVIDER.name ? key : `${key}|${chain}`;
+  }
+
+  /**
+   * Resolves the market of a call as an uppercase country code: the per-call
+   * option takes precedence over the client one.
+   */
+  private getMarket(options: RequestOptions | undefined): string | null {
+    const market = options?.market ?? this.config.market;
+    if (!market) return null;
+    // The market is sent as a query parameter, so anything else is rejected
+    if (!/^[A-Z]{2}$/.test(market.toUpperCase())) {
+      throw new InvalidMarketError(market);
+    }
+    return market.toUpperCase();
+  }
+
+  /**
+   * Returns a retry callback emitting `retry` events for a call.
+   */
+  private onRetry(log: Logger) {
+    return (attempt: number, delayMs: number, error: Error) =>
+      this.events.emit(
+        "retry",
+        { ...getEventContext(log), attempt, delayMs, error },
+        log
+      );
+  }
+
+  /**
+   * Emits the `error` event of a failed lookup. Missing previews are
+   * reported through `noPreview` instead, even when they are thrown.
+   */
+  private emitLookupError(
+    error: Error,
+    trackId: string | null,
+    startedAt: number,
+    log: Logger
+  ): void {
+    if (error instanceof NoPreviewAvailableError) return;
+    this.events.emit(
+      "error",
+      {
+        ...getEventContext(log),
+        trackId,
+        error,
+        durationMs: Date.now() - startedAt,
+      },
+      log
+    );
+  }
+
+  /**
+   * Shared implementation of the album, playlist and artist lookups.
+   */
+  private async getCollectionPreviews(
+    type: CollectionType,
+    input: string,
+    options: GetCollectionPreviewsOptions | undefined
+  ): Promise<CollectionPreviews> {
+    const log = this.getLogger(options);
+    const scope = this.createScope(options);
+
+    try {
+      const id = await this.resolveSpotifyId(
+        input,
+        type,
+        options,
+        scope.signal,
+        log
+      );
+      const entity = await this.fetchEmbedEntity(
+        type,
+        id,
+        options,
+        scope.signal,
+        log
+      );
+      const collection = toCollectionPreviews(entity, type, id);
+
+      const withPreview = collection.tracks.filter((t) => t.previewUrl).length;
+      log.info(
+        `Found ${collection.tracks.length} tracks (${withPreview} with previews) for ${type} ID: ${id}`
+      );
+      return collection;
+    } catch (error) {
+      // Re-throw custom errors
+      if (error instanceof SpotifyPreviewError) {
+        throw error;
+      }
+      // Handle fetch or parsing errors
+      log.error(`Fetch or parsing error`, error);
+      throw new SpotifyApiError(
+        `Failed to retrieve ${type} previews: ${error.message}`,
+        undefined,
+        undefined,
+        { cause: error }
+      );
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  /**
+   * Shared implementation of the episode and chapter lookups.
+   */
+  private async getSpokenPreview(
+    type: EpisodeType,
+    input: string,
+    options: GetEpisodePreviewOptions | undefined
+  ): Promise<EpisodePreview> {
+    const log = this.getLogger(options);
+    const scope = this.createScope(options);
+
+    let id: string;
+    let preview: EpisodePreview;
+    try {
+      id = await this.resolveSpotifyId(input, type, options, scope.signal, log);
+      const entity = await this.fetchEmbedEntity(
+        type,
+        id,
+        options,
+        scope.signal,
+        log
+      );
+      preview = toEpisodePreview(entity, type, id);
+    } catch (error) {
+      // Re-throw custom errors
+      if (error instanceof SpotifyPreviewError) {
+        throw error;
+      }
+      // Handle fetch or parsing errors
+      log.error(`Fetch or parsing error`, error);
+      throw new SpotifyApiError(
+        `Failed to retrieve ${type} preview: ${error.message}`,
+        undefined,
+        undefined,
+        { cause: error }
+      );
+    } finally {
+      scope.dispose();
+    }
+
+    if (!preview.previewUrl) {
+      log.warn(`No preview URL found for ${type} ID: ${id}`);
+      if (options?.throws) {
+        throw new NoPreviewAvailableError(id, type);
+      }
+    } else {
+      log.info(`Found preview URL for ${type} ID: ${id}`);
+    }
+    log.debug(`${type} preview`, preview);
+    return preview;
+  }
+
+  /**
+   * Resolves the ID of a track, album, playlist, artist, episode or chapter
+   * from an ID or URL.
+   */
+  private async resolveSpotifyId(
+    input: string,
+    type: SpotifyEntityType,
+    options: RequestOptions | undefined,
+    signal: AbortSignal | undefined,
+    log: Logger
+  ): Promise<string> {
+    let id: string;
+    log.info(`Processing ${type} identifier: ${input}`);
+
+    try {
+      // Anything that cannot be part of a bare ID is treated as a URL or URI
+      if (/[:/.]/.test(input)) {
+        log.debug(`Treating input as a Spotify URL or URI`);
+        const url = isShortLink(input)
+          ? await this.resolveShortLink(input, options, signal, log)
+          : input;
+        id = extractSpotifyIdFromUrl(url, type, log);
+        log.info(`Extracted ${type} ID: ${id} from URL`);
+      } else {
+        log.debug(`Treating input as a ${type} ID`);
+        id = input;
+        // Validate the ID
+        validateSpotifyId(id, type, log);
+        log.info(`Validated ${type} ID format: ${id}`);
+      }
+    } catch (error) {
+      // Re-throw parser errors
+      log.error(`${type} identifier error`, error);
+      if (error instanceof SpotifyPreviewError) {
+        throw error;
+      }
+      // Handle unexpected errors
+      throw new SpotifyPreviewError(
+        `Failed to process ${type} identifier: ${error.message}`,
+        { cause: error }
+      );
+    }
+
+    return id;
+  }
+
+  /**
+   * Resolves a short link through the client's transport, within the
+   * call's scope.
+   */
+  private async resolveShortLink(
+    shortLink: string,
+    options: RequestOptions | undefined,
+    signal: AbortSignal | undefined,
+    log: Logger
+  ): Promise<string> {
+    const transport = this.getTransport(options);
+
+    try {
+      return await resolveShortLink(
+        shortLink,
+        transport,
+        signal ? { signal } : undefined,
+        log
+      );
+    } catch (error) {
+      if (signal?.aborted) {
+        throw getAbortError(signal);
+      }
+      if (error instanceof SpotifyPreviewError) {
+        throw error;
+      }
+      log.error(`Network error`, error);
+      throw new NetworkError(`Failed to resolve short link: ${error.message}`, {
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Resolves a track and fetches its preview URL within the call's scope,
+   * emitting the `error` event if the lookup fails.
+   */
+  private async findPreview(
+    track: string,
+    options: GetPreviewOptions | undefined,
+    signal: AbortSignal | undefined,
+    log: Logger
+  ): Promise<string | null> {
+    const startedAt = Date.now();
+    let trackId: string | null = null;
+    try {
+      trackId = await this.resolveSpotifyId(
+        track,
+        "track",
+        options,
+        signal,
+        log
+      );
+      const { previewUrl } = await this.fetchPreview(
+        trackId,
+        options,
+        signal,
+        log.child({ trackId }),
+        startedAt
+      );
+      return previewUrl;
+    } catch (error) {
+      this.emitLookupError(error, trackId, startedAt, log);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches the preview URL for an already validated track ID, emitting
+   * the events of the lookup.
+   */
+  private async fetchPreview(
+    trackId: string,
+    options: GetPreviewOptions | undefined,
+    signal: AbortSignal | undefined,
+    log: Logger,
+    startedAt: number
+  ): Promise<MarketPreviewLookup> {
+    const context = getEventContext(log);
+    const market = this.getMarket(options);
+    try {
+      const lookup = (lookupSignal: AbortSignal | undefined) =>
+        this.lookupPreview(trackId, options, lookupSignal, log);
+
+      // Per-call cache options take precedence over the client ones
+      const cache = options?.cache ?? this.config.cache;
+      const found = cache
+        ? await withPreviewCache(
+            this.getCacheKey(trackId, market, options),
+            cache.store ?? this.cacheStore,
+            cache,
+            lookup,
+            log,
+            (cached) =>
+              this.events.emit(
+                "cacheHit",
+                {
+                  ...context,
+                  trackId,
+                  previewUrl: cached,
+                  durationMs: Date.now() - startedAt,
+                },
+                log
+              ),
+            signal
+          )
+        : await lookup(signal);
+      const { provider, source, matchConfidence } = found;
+      let { previewUrl } = found;
+      if (
+        previewUrl &&
+        options?.verify &&
+        !(await this.isReachable(previewUrl, options, signal, log))
+      ) {
+        log.warn(`Treating unreachable preview as no preview`);
+        previewUrl = null;
+      }
+      const durationMs = Date.now() - startedAt;
+
+      if (!previewUrl) {
+        log.warn(`No preview URL found for track ID: ${trackId}`, {
+          durationMs,
+        });
+        this.events.emit(
+          "noPreview",
+          { ...context, trackId, provider, durationMs },
+          log
+        );
+        if (options?.throws) {
+          throw new NoPreviewAvailableError(trackId);
+        }
+        return {
+          previewUrl: null,
+          provider,
+          source: null,
+          matchConfidence: null,
+          market,
+        };
+      }
+
+      log.info(`Found preview URL for track ID: ${trackId}`, {
+        durationMs,
+        provider,
+        ...(source !== null && { source, matchConfidence }),
+        ...(market !== null && { market }),
+      });
+      log.debug(`Preview URL: ${previewUrl}`);
+      this.events.emit(
+        "preview",
+        { ...context, trackId, previewUrl, provider, durationMs },
+        log
+      );
+      return { previewUrl, provider, source, matchConfidence, market };
+    } catch (error) {
+      // Re-throw custom errors
+      if (error instanceof SpotifyPreviewError) {
+        throw error;
+      }
+      // Handle fetch or parsing errors
+      log.error(`Fetch or parsing error`, error);
+      throw new SpotifyApiError(
+        `Failed to retrieve preview: ${error.message}`,
+        undefined,
+        undefined,
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Verifies a preview URL found by a lookup, within the call's scope.
+   */
+  private async isReachable(
+    url: string,
+    options: RequestOptions,
+    signal: AbortSignal | undefined,
+    log: Logger
+  ): Promise<boolean> {
+    const { reachable } = await verifyPreviewUrl(
+      this.getTransport(options),
+      url,
+      "HEAD",
+      signal,
+      log
+    );
+    return reachable;
+  }
+
+  /**
+   * Asks each provider in turn for the preview URL, until one has it. If no
+   * provider could answer at all, the last error is thrown.
+   */
+  private async lookupPreview(
+    trackId: string,
+    options: GetPreviewOptions | undefined,
+    signal: AbortSignal | undefined,
+    log: Logger
+  ): Promise<PreviewLookup> {
+    const providers = this.getProviders(options);
+    const retry = options?.retry ?? this.config.retry;
+    const requestContext = this.createProviderContext(options, signal, log);
+    let embedPage: Promise<string> | undefined;
+    const context: PreviewProviderContext = {
+      ...requestContext,
+      getEmbedPage: () => {
+        // A failed fetch is not kept, so a retry fetches the page again
+        embedPage ??= fetchEmbedHtml("track", trackId, requestContext).catch(
+          (error) => {
+            embedPage = undefined;
+            throw error;
+          }
+        );
+        return embedPage;
+      },
+    };
+
+    let answeredBy: string | null = null;
+    let lastError: unknown;
+    for (const provider of providers) {
+      log.debug(`Asking provider "${provider.name}" for track ID: ${trackId}`);
+      try {
+        const result = await withRetry(
+          () => provider.getPreviewUrl(trackId, context),
+          retry,
+          log,
+          signal,
+          this.onRetry(log)
+        );
+        // A plain URL is Spotify's own preview of the track
+        const match =
+          typeof result === "string"
+            ? { previewUrl: result, source: "spotify", matchConfidence: 1 }
+            : result;
+        if (match?.previewUrl) {
+          return { ...match, provider: provider.name };
+        }
+        answeredBy = provider.name;
+        log.debug(`Provider "${provider.name}" has no preview`);
+      } catch (error) {
+        throwIfAborted(signal);
+        log.warn(`Provider "${provider.name}" failed: ${error.message}`);
+        lastError = error;
+      }
+    }
+
+    if (answeredBy === null && lastError !== undefined) {
+      throw lastError;
+    }
+    return {
+      previewUrl: null,
+      provider: answeredBy,
+      source: null,
+      matchConfidence: null,
+    };
+  }
+
+  /**
+   * Requests a preview audio file and returns its checked body.
+   */
+  private async openPreviewAudio(
+    url: string,
+    options: RequestOptions,
+    download: Pick<DownloadPreviewOptions, "onProgress"> & {
+      maxBytes: number;
+      scope: AbortScope;
+    },
+    log: Logger
+  ): Promise<ReadableStream<Uint8Array>> {
+    const transport = this.getTransport(options);
+    const { signal } = download.scope;
+    log.info(`Downloading preview from ${url}`);
+
+    let response: Response;
+    try {
+      response = await httpRequest(
+        transport,
+        url,
+        signal ? { signal } : undefined,
+        log
+      );
+    } catch (error) {
+      if (signal?.aborted) {
+        throw getAbortError(signal);
+      }
+      log.error(`Network error`, error);
+      throw new PreviewDownloadError(
+        `Connection failed: ${error.message}`,
+        url,
+        undefined,
+        { cause: error }
+      );
+    }
+    log.debug(`Response status: ${response.status}`);
+
+    const totalBytes = checkAudioResponse(response, url, download.maxBytes);
+    if (!response.body) {
+      throw new PreviewDownloadError("Empty response", url, response.status);
+    }
+
+    return createAudioStream(
+      response.body,
+      totalBytes,
+      {
+        url,
+        status: response.status,
+        maxBytes: download.maxBytes,
+        signal,
+        onProgress: download.onProgress,
+        onSettled: () => download.scope.dispose(),
+      },
+      log
+    );
+  }
+
+  /**
+   * Fetches and parses the embed page state for an entity.
+   */
+  private async fetchEmbedEntity(
+    type: SpotifyEntityType,
+    id: string,
+    options: RequestOptions | undefined,
+    signal: AbortSignal | undefined,
+    log: Logger
+  ): Promise<any> {
+    const html = await this.fetchEmbedHtml(type, id, options, signal, log);
+
+    try {
+      return extractEmbedEntity(html, log);
+    } catch (error) {
+      log.error(`Failed to parse embed page for ${type} ID: ${id}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches the embed page HTML for an entity.
+   */
+  private async fetchEmbedHtml(
+    type: SpotifyEntityType,
+    id: string,
+    options: RequestOptions | undefined,
+    signal: AbortSignal | undefined,
+    log: Logger
+  ): Promise<string> {
+    // Per-call options take precedence over the client ones
+    const retry = options?.retry ?? this.config.retry;
+    const context = this.createProviderContext(options, signal, log);
+
+    return withRetry(
+      () => fetchEmbedHtml(type, id, context),
+      retry,
+      log,
+      signal,
+      this.onRetry(log)
+    );
+  }
+
+  /**
+   * Creates the request helpers handed to providers for one call.
+   */
+  private createProviderContext(
+    options: RequestOptions | undefined,
+    signal: AbortSignal | undefined,
+    log: Logger
+  ): Omit<PreviewProviderContext, "getEmbedPage"> {
+    const transport = this.getTransport(options);
+    const locale = options?.locale ?? this.config.locale ?? null;
+
+    return {
+      signal,
+      log,
+      market: this.getMarket(options),
+      locale,
+      request: async (url, init, requestOptions) => {
+        throwIfAborted(signal);
+        log.debug(`Fetching from URL: ${url}`);
+
+        // Headers set by the caller take precedence over Accept-Language
+        if (locale) {
+          init = {
+            ...init,
+            headers: mergeHeaders({ "Accept-Language": locale }, init?.headers),
+          };
+        }
+
+        // Configured headers may carry credentials meant for Spotify only
+        const target =
+          requestOptions?.transportHeaders === false
+            ? { ...transport, headers: {} }
+            : transport;
+
+        try {
+          return await httpRequest(
+            target,
+            url,
+            signal ? { ...init, signal } : init,
+            log
+          );
+        } catch (error) {
+          if (signal?.aborted) {
+            const abortError = getAbortError(signal);
+            log.error(`Request cancelled: ${abortError.message}`);
+            throw abortError;
+          }
+          log.error(`Network error`, error);
+          throw new NetworkError(
+            `Failed to retrieve preview: ${error.message}`,
+            { cause: error }
+          );
+        }
+      },
+    };
+  }
+}
+
+/**
+ * Wraps unexpected errors raised while processing a track, so every failure
+ * is a SpotifyPreviewError.
+ */
+function toTrackError(error: Error): SpotifyPreviewError {
+  return error instanceof SpotifyPreviewError
+    ? error
+    : new SpotifyPreviewError(`Failed to process track: ${error.message}`, {
+        cause: error,
+      });
+}
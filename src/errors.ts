@@ -1,22 +1,105 @@
+/**
+ * JSON form of a `SpotifyPreviewError`, as returned by `toJSON()`.
+ */
+export interface SerializedSpotifyPreviewError {
+  name: string;
+  code: string;
+  message: string;
+  retryable: boolean;
+  cause?: unknown;
+  [property: string]: unknown;
+}
+
 /**
  * Base error class for all Spotify preview-related errors.
  */
 export class SpotifyPreviewError extends Error {
-  constructor(message: string) {
-    super(message);
+  /**
+   * Stable identifier of the kind of error, safe to match on
+   */
+  readonly code: string = "SPOTIFY_PREVIEW_ERROR";
+
+  /**
+   * Whether the same call may succeed if it is made again later
+   */
+  retryable: boolean = false;
+
+  /**
+   * Number of request attempts made before the error was thrown, if any request was made
+   */
+  attempts?: number;
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
     this.name = this.constructor.name;
-    Error.captureStackTrace(this, this.constructor);
+    // Runtimes without ErrorOptions support ignore the second argument
+    if (options?.cause !== undefined && this.cause === undefined) {
+      this.cause = options.cause;
+    }
+    // Only available in V8
+    if (typeof Error.captureStackTrace === "function") {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+
+  /**
+   * Converts the error to a JSON-friendly object, including its cause.
+   */
+  toJSON(): SerializedSpotifyPreviewError {
+    const { name, code, message, retryable, ...properties } = this;
+    const json: SerializedSpotifyPreviewError = {
+      name,
+      code,
+      message,
+      retryable,
+    };
+    for (const [key, value] of Object.entries(properties)) {
+      if (value !== undefined) json[key] = value;
+    }
+    if (this.cause !== undefined) {
+      json.cause = serializeCause(this.cause);
+    }
+    return json;
   }
 }
 
 /**
- * Error thrown when an invalid track ID format is provided.
+ * Converts the cause of an error to a JSON-friendly value.
  */
-export class InvalidTrackIdError extends SpotifyPreviewError {
-  constructor(trackId: string) {
+function serializeCause(cause: unknown): unknown {
+  if (cause instanceof SpotifyPreviewError) return cause.toJSON();
+  if (cause instanceof Error) {
+    return { name: cause.name, message: cause.message };
+  }
+  return cause;
+}
+
+/**
+ * Error thrown when an invalid Spotify ID format is provided.
+ */
+export class InvalidSpotifyIdError extends SpotifyPreviewError {
+  readonly code: string = "INVALID_SPOTIFY_ID";
+  id: string;
+  type: string;
+
+  constructor(id: string, type: string) {
+    const label = type.charAt(0).toUpperCase() + type.slice(1);
     super(
-      `Invalid track ID format: "${trackId}". Track ID must be a 22-character alphanumeric string.`
+      `Invalid ${type} ID format: "${id}". ${label} ID must be a 22-character alphanumeric string.`
     );
+    this.id = id;
+    this.type = type;
+  }
+}
+
+/**
+ * Error thrown when an invalid track ID format is provided.
+ */
+export class InvalidTrackIdError extends InvalidSpotifyIdError {
+  readonly code: string = "INVALID_TRACK_ID";
+
+  constructor(trackId: string) {
+    super(trackId, "track");
   }
 }
 
@@ -24,37 +107,219 @@ export class InvalidTrackIdError extends SpotifyPreviewError {
  * Error thrown when an invalid Spotify URL is provided.
  */
 export class InvalidSpotifyUrlError extends SpotifyPreviewError {
-  constructor(url: string) {
+  readonly code: string = "INVALID_SPOTIFY_URL";
+
+  constructor(url: string, type?: string) {
     super(
-      `Invalid Spotify URL: "${url}". URL must contain "/track/" followed by a valid track ID.`
+      type
+        ? `Invalid Spotify URL: "${url}". URL must contain "/${type}/" followed by a valid ${type} ID.`
+        : `Invalid Spotify URL: "${url}". URL must point to a Spotify track, album, playlist, artist, episode or chapter.`
     );
   }
 }
 
+/**
+ * Error thrown when a market is not a two-letter country code.
+ */
+export class InvalidMarketError extends SpotifyPreviewError {
+  readonly code: string = "INVALID_MARKET";
+  market: string;
+
+  constructor(market: string) {
+    super(
+      `Invalid market: "${market}". Market must be an ISO 3166-1 alpha-2 country code.`
+    );
+    this.market = market;
+  }
+}
+
 /**
  * Error thrown when no preview is available for a track.
  */
 export class NoPreviewAvailableError extends SpotifyPreviewError {
+  readonly code: string = "NO_PREVIEW_AVAILABLE";
+  /**
+   * ID of the track, or of the episode or chapter for their lookups
+   */
   trackId: string;
+  type: string;
 
-  constructor(trackId: string) {
-    super(`No audio preview available for track ID: "${trackId}".`);
+  constructor(trackId: string, type = "track") {
+    super(`No audio preview available for ${type} ID: "${trackId}".`);
     this.trackId = trackId;
+    this.type = type;
   }
 }
 
 /**
- * Error thrown when there's a network or API issue.
+ * Error thrown when there's a network or API issue. Requests without a
+ * response, 429 and 5xx responses are retryable.
  */
 export class SpotifyApiError extends SpotifyPreviewError {
+  readonly code: string = "SPOTIFY_API_ERROR";
   statusCode?: number;
+  retryAfterMs?: number;
 
-  constructor(message: string, statusCode?: number) {
+  constructor(
+    message: string,
+    statusCode?: number,
+    retryAfterMs?: number,
+    options?: ErrorOptions
+  ) {
     super(
       `Spotify API error: ${message}${
         statusCode ? ` (Status: ${statusCode})` : ""
-      }`
+      }`,
+      options
     );
     this.statusCode = statusCode;
+    this.retryAfterMs = retryAfterMs;
+    this.retryable =
+      statusCode === undefined || statusCode === 429 || statusCode >= 500;
   }
 }
+
+/**
+ * Error thrown when Spotify has no track with the given ID.
+ */
+export class TrackNotFoundError extends SpotifyApiError {
+  readonly code: string = "TRACK_NOT_FOUND";
+  trackId: string;
+
+  constructor(trackId: string, options?: ErrorOptions) {
+    super(`Track not found: "${trackId}"`, 404, undefined, options);
+    this.trackId = trackId;
+  }
+}
+
+/**
+ * Error thrown when Spotify rejects a request because too many were made.
+ * `retryAfterMs` holds the delay Spotify asked for, if any.
+ */
+export class RateLimitedError extends SpotifyApiError {
+  readonly code: string = "RATE_LIMITED";
+
+  constructor(message: string, retryAfterMs?: number, options?: ErrorOptions) {
+    super(message, 429, retryAfterMs, options);
+  }
+}
+
+/**
+ * Error thrown when a request fails without a response, e.g. because the
+ * connection was refused or reset. The underlying error is the `cause`.
+ */
+export class NetworkError extends SpotifyApiError {
+  readonly code: string = "NETWORK_ERROR";
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, undefined, undefined, options);
+  }
+}
+
+/**
+ * Error thrown when content is not available in the region the request is
+ * made from, or in the requested market.
+ */
+export class RegionRestrictedError extends SpotifyApiError {
+  readonly code: string = "REGION_RESTRICTED";
+  retryable: boolean = false;
+  /**
+   * The market the content is not available in, if known
+   */
+  market: string | null;
+
+  constructor(
+    message: string,
+    statusCode?: number,
+    options?: ErrorOptions & { market?: string | null }
+  ) {
+    super(message, statusCode, undefined, options);
+    this.market = options?.market ?? null;
+  }
+}
+
+/**
+ * Error thrown when a preview cannot be downloaded, or the response is not MP3 audio.
+ */
+export class PreviewDownloadError extends SpotifyPreviewError {
+  readonly code: string = "PREVIEW_DOWNLOAD_FAILED";
+  url: string;
+  statusCode?: number;
+
+  constructor(
+    message: string,
+    url: string,
+    statusCode?: number,
+    options?: ErrorOptions
+  ) {
+    super(
+      `Failed to download preview: ${message}${
+        statusCode ? ` (Status: ${statusCode})` : ""
+      }`,
+      options
+    );
+    this.url = url;
+    this.statusCode = statusCode;
+    this.retryable =
+      statusCode === undefined || statusCode === 429 || statusCode >= 500;
+  }
+}
+
+/**
+ * Error thrown when audio data does not contain any MPEG audio frame.
+ */
+export class AudioParseError extends SpotifyPreviewError {
+  readonly code: string = "AUDIO_PARSE_FAILED";
+  reason: string;
+
+  constructor(reason: string) {
+    super(`Failed to parse preview audio: ${reason}`);
+    this.reason = reason;
+  }
+}
+
+/**
+ * Error thrown when a request does not complete within the configured timeout.
+ */
+export class SpotifyTimeoutError extends SpotifyPreviewError {
+  readonly code: string = "TIMEOUT";
+  retryable: boolean = true;
+  timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms.`);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Error thrown when a request is cancelled through an AbortSignal.
+ */
+export class SpotifyAbortError extends SpotifyPreviewError {
+  readonly code: string = "ABORTED";
+
+  constructor() {
+    super(`Request was aborted.`);
+  }
+}
+
+/**
+ * Error thrown when the Spotify embed page cannot be parsed, usually because
+ * Spotify changed the structure of the page.
+ */
+export class EmbedParseError extends SpotifyPreviewError {
+  readonly code: string = "EMBED_PARSE_FAILED";
+  strategy: EmbedParseStrategy;
+  reason: string;
+
+  constructor(strategy: EmbedParseStrategy, reason: string) {
+    super(`Failed to parse embed page using "${strategy}": ${reason}`);
+    this.strategy = strategy;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Strategies used to extract data from the Spotify embed page.
+ */
+export type EmbedParseStrategy = "next-data" | "audio-preview-regex";
@@ -1,17 +1,40 @@
+import type { Server } from "node:http";
+import { SpotifyPreviewClient } from "./client";
+import * as server from "./server";
+import { logger } from "./utils/logger.utils";
 import {
-  extractTrackIdFromUrl,
-  validateSpotifyTrackId,
-} from "./utils/parser.utils";
-import {
-  SpotifyPreviewError,
-  NoPreviewAvailableError,
-  SpotifyApiError,
-} from "./errors";
-import { Logger, logger, withLogger } from "./utils/logger.utils";
-import { GetPreviewOptions, SpotifyAudioPreviewsConfig } from "./types/index";
+  CollectionPreviews,
+  DownloadPreviewOptions,
+  DownloadPreviewResult,
+  DownloadTarget,
+  EpisodePreview,
+  GetCollectionPreviewsOptions,
+  GetEpisodePreviewOptions,
+  GetPreviewAvailabilityOptions,
+  GetPreviewOptions,
+  GetPreviewResultOptions,
+  GetPreviewsOptions,
+  GetTrackInfoOptions,
+  PreviewAvailability,
+  PreviewEventListener,
+  PreviewEventName,
+  PreviewHandlerOptions,
+  PreviewLookupResult,
+  PreviewResult,
+  PreviewServerOptions,
+  PreviewStats,
+  PreviewVerification,
+  RequestOptions,
+  SpotifyAudioPreviewsConfig,
+  SpotifyReference,
+  TrackInfo,
+  VerifyPreviewOptions,
+  WatchPreviewsOptions,
+} from "./types/index";
+import { PreviewWatcher } from "./utils/watch.utils";
 
-// Global configuration
-let globalConfig: SpotifyAudioPreviewsConfig = {};
+// Client behind the top-level functions, sharing the global logger
+const defaultClient = new SpotifyPreviewClient({}, logger);
 
 /**
  * Configure global settings for the Spotify Preview package.
@@ -19,121 +42,376 @@ let globalConfig: SpotifyAudioPreviewsConfig = {};
  * @param config - Configuration options
  */
 function configure(config: SpotifyAudioPreviewsConfig): void {
-  globalConfig = { ...globalConfig, ...config };
+  defaultClient.configure(config);
+}
+
+/**
+ * Number of requests currently waiting for the global rate limit.
+ *
+ * @see SpotifyPreviewClient.getRateLimitQueueDepth
+ */
+function getRateLimitQueueDepth(): number {
+  return defaultClient.getRateLimitQueueDepth();
+}
 
-  if (config.logger) {
-    Logger.configure(config.logger);
-  }
+/**
+ * Adds a listener for a lifecycle event of the top-level functions.
+ *
+ * @see SpotifyPreviewClient.on
+ */
+function on<E extends PreviewEventName>(
+  event: E,
+  listener: PreviewEventListener<E>
+): void {
+  defaultClient.on(event, listener);
+}
+
+/**
+ * Adds a listener for a lifecycle event of the top-level functions that is
+ * removed after its first call.
+ *
+ * @see SpotifyPreviewClient.once
+ */
+function once<E extends PreviewEventName>(
+  event: E,
+  listener: PreviewEventListener<E>
+): void {
+  defaultClient.once(event, listener);
+}
+
+/**
+ * Removes a listener added with `on`.
+ *
+ * @see SpotifyPreviewClient.off
+ */
+function off<E extends PreviewEventName>(
+  event: E,
+  listener: PreviewEventListener<E>
+): void {
+  defaultClient.off(event, listener);
+}
+
+/**
+ * Returns a snapshot of the runtime statistics of the top-level functions.
+ *
+ * @see SpotifyPreviewClient.getStats
+ */
+function getStats(): PreviewStats {
+  return defaultClient.getStats();
 }
 
 /**
- * Gets an audio preview url for a Spotify track.
+ * Gets an audio preview url for a Spotify track using the global configuration.
  *
- * @param track - Either a track ID (e.g. "308Ir17KlNdlrbVLHWhlLe") or a track URL (e.g. "open.spotify.com/track/308Ir17KlNdlrbVLHWhlLe")
- * @param options - Configuration options
- * @returns The track preview URL, or null if no preview found and `throws` is false
- * @throws {InvalidTrackIdError} If the track ID format is invalid
- * @throws {InvalidSpotifyUrlError} If the Spotify URL is invalid
- * @throws {NoPreviewAvailableError} If no preview is available and `throws` is true
- * @throws {SpotifyApiError} If there's an issue with the Spotify API request
+ * @see SpotifyPreviewClient.getPreview
  */
 async function getPreview<T extends GetPreviewOptions = {}>(
   track: string,
   options?: T
 ): Promise<T extends { throws: true } ? string : string | null> {
-  // If no logger options are provided, use the global logger
-  if (!options?.logger) {
-    return processTrack(track, options, logger);
-  }
+  return defaultClient.getPreview(track, options);
+}
 
-  // Use a temporary logger for this operation only
-  return withLogger(
-    async (log) => processTrack(track, options, log),
-    options.logger
-  );
+/**
+ * Gets the audio preview url for a Spotify track using the global
+ * configuration, returning failures instead of throwing them.
+ *
+ * @see SpotifyPreviewClient.getPreviewResult
+ */
+async function getPreviewResult(
+  track: string,
+  options?: GetPreviewResultOptions
+): Promise<PreviewLookupResult> {
+  return defaultClient.getPreviewResult(track, options);
 }
 
 /**
- * Internal function to process a track with a specific logger.
+ * Checks in which markets a Spotify track has a preview using the global
+ * configuration.
+ *
+ * @see SpotifyPreviewClient.getPreviewAvailability
  */
-async function processTrack<T extends GetPreviewOptions = {}>(
+async function getPreviewAvailability(
   track: string,
-  options: T | undefined,
-  log: Logger
-): Promise<T extends { throws: true } ? string : string | null> {
-  let trackId: string;
-  log.info(`Processing track identifier: ${track}`);
-
-  try {
-    // Extract the track ID if a URL was provided
-    if (track.includes("spotify.com")) {
-      log.debug(`Treating input as a Spotify URL`);
-      trackId = extractTrackIdFromUrl(track, log);
-      log.info(`Extracted track ID: ${trackId} from URL`);
-    } else {
-      log.debug(`Treating input as a track ID`);
-      trackId = track;
-      // Validate the track ID
-      validateSpotifyTrackId(trackId, log);
-      log.info(`Validated track ID format: ${trackId}`);
-    }
-  } catch (error) {
-    // Re-throw parser errors
-    log.error(`Track identifier error`, error);
-    if (error instanceof SpotifyPreviewError) {
-      throw error;
-    }
-    // Handle unexpected errors
-    throw new SpotifyPreviewError(
-      `Failed to process track identifier: ${error.message}`
-    );
-  }
-
-  try {
-    const url = `https://open.spotify.com/embed/track/${trackId}`;
-    log.debug(`Fetching from URL: ${url}`);
-
-    const response = await fetch(url);
-    log.debug(`Response status: ${response.status}`);
-
-    if (!response.ok) {
-      log.error(`API error: ${response.status} ${response.statusText}`);
-      throw new SpotifyApiError(
-        `Failed to fetch track preview data`,
-        response.status
-      );
-    }
-
-    const html = await response.text();
-
-    const regex = /"audioPreview":\s*\{\s*"url":\s*"([^"]+)"\s*\}/;
-    const match = html.match(regex);
-    const previewUrl = match ? match[1] : null;
-
-    if (!previewUrl || !previewUrl.includes("https://")) {
-      log.warn(`No preview URL found for track ID: ${trackId}`);
-      if (options?.throws) {
-        throw new NoPreviewAvailableError(trackId);
-      }
-      return null as any;
-    }
-
-    log.info(`Found preview URL for track ID: ${trackId}`);
-    log.debug(`Preview URL: ${previewUrl}`);
-    return previewUrl as any;
-  } catch (error) {
-    // Re-throw custom errors
-    if (error instanceof SpotifyPreviewError) {
-      throw error;
-    }
-    // Handle fetch or parsing errors
-    log.error(`Fetch or parsing error`, error);
-    throw new SpotifyApiError(`Failed to retrieve preview: ${error.message}`);
-  }
+  markets: readonly string[],
+  options?: GetPreviewAvailabilityOptions
+): Promise<PreviewAvailability> {
+  return defaultClient.getPreviewAvailability(track, markets, options);
+}
+
+/**
+ * Gets audio preview urls for a list of Spotify tracks using the global configuration.
+ *
+ * @see SpotifyPreviewClient.getPreviews
+ */
+async function getPreviews(
+  tracks: string[],
+  options?: GetPreviewsOptions
+): Promise<PreviewResult[]> {
+  return defaultClient.getPreviews(tracks, options);
+}
+
+/**
+ * Watches the previews of a list of Spotify tracks using the global configuration.
+ *
+ * @see SpotifyPreviewClient.watchPreviews
+ */
+function watchPreviews(
+  tracks: readonly string[],
+  options?: WatchPreviewsOptions
+): PreviewWatcher {
+  return defaultClient.watchPreviews(tracks, options);
+}
+
+/**
+ * Downloads the audio preview of a Spotify track using the global configuration.
+ *
+ * @see SpotifyPreviewClient.downloadPreview
+ */
+async function downloadPreview<T extends DownloadTarget>(
+  track: string,
+  options: DownloadPreviewOptions & { to: T }
+): Promise<DownloadPreviewResult<T>> {
+  return defaultClient.downloadPreview(track, options);
+}
+
+/**
+ * Parses a Spotify URL or URI, resolving short links first, using the global configuration.
+ *
+ * @see SpotifyPreviewClient.resolveReference
+ */
+async function resolveSpotifyReference(
+  input: string,
+  options?: RequestOptions
+): Promise<SpotifyReference> {
+  return defaultClient.resolveReference(input, options);
+}
+
+/**
+ * Checks that a preview URL is reachable using the global configuration.
+ *
+ * @see SpotifyPreviewClient.verifyPreview
+ */
+async function verifyPreview(
+  urlOrTrack: string,
+  options?: VerifyPreviewOptions
+): Promise<PreviewVerification> {
+  return defaultClient.verifyPreview(urlOrTrack, options);
+}
+
+/**
+ * Gets the metadata of a Spotify track using the global configuration.
+ *
+ * @see SpotifyPreviewClient.getTrackInfo
+ */
+async function getTrackInfo(
+  track: string,
+  options?: GetTrackInfoOptions
+): Promise<TrackInfo> {
+  return defaultClient.getTrackInfo(track, options);
+}
+
+/**
+ * Gets the tracks of a Spotify album using the global configuration.
+ *
+ * @see SpotifyPreviewClient.getAlbumPreviews
+ */
+async function getAlbumPreviews(
+  album: string,
+  options?: GetCollectionPreviewsOptions
+): Promise<CollectionPreviews> {
+  return defaultClient.getAlbumPreviews(album, options);
+}
+
+/**
+ * Gets the tracks of a Spotify playlist using the global configuration.
+ *
+ * @see SpotifyPreviewClient.getPlaylistPreviews
+ */
+async function getPlaylistPreviews(
+  playlist: string,
+  options?: GetCollectionPreviewsOptions
+): Promise<CollectionPreviews> {
+  return defaultClient.getPlaylistPreviews(playlist, options);
+}
+
+/**
+ * Gets the top tracks of a Spotify artist using the global configuration.
+ *
+ * @see SpotifyPreviewClient.getArtistTopTrackPreviews
+ */
+async function getArtistTopTrackPreviews(
+  artist: string,
+  options?: GetCollectionPreviewsOptions
+): Promise<CollectionPreviews> {
+  return defaultClient.getArtistTopTrackPreviews(artist, options);
+}
+
+/**
+ * Gets the preview clip of a Spotify podcast episode using the global configuration.
+ *
+ * @see SpotifyPreviewClient.getEpisodePreview
+ */
+async function getEpisodePreview(
+  episode: string,
+  options?: GetEpisodePreviewOptions
+): Promise<EpisodePreview> {
+  return defaultClient.getEpisodePreview(episode, options);
+}
+
+/**
+ * Gets the preview clip of a Spotify audiobook chapter using the global configuration.
+ *
+ * @see SpotifyPreviewClient.getChapterPreview
+ */
+async function getChapterPreview(
+  chapter: string,
+  options?: GetEpisodePreviewOptions
+): Promise<EpisodePreview> {
+  return defaultClient.getChapterPreview(chapter, options);
+}
+
+/**
+ * Creates a `node:http` request handler serving preview lookups, using the
+ * global configuration unless a `client` is given.
+ *
+ * @see server.createPreviewHandler
+ */
+function createPreviewHandler(
+  options: PreviewHandlerOptions = {}
+): server.PreviewHandler {
+  return server.createPreviewHandler(options.client ?? defaultClient, options);
+}
+
+/**
+ * Starts an HTTP server serving preview lookups, using the global
+ * configuration unless a `client` is given.
+ *
+ * @see server.startPreviewServer
+ */
+async function startPreviewServer(
+  options: PreviewServerOptions = {}
+): Promise<Server> {
+  return server.startPreviewServer(options.client ?? defaultClient, options);
 }
 
 export { LogLevel } from "./types/index";
+export type {
+  BatchProgress,
+  CacheHitEvent,
+  CollectionPreviews,
+  CollectionTrack,
+  CollectionType,
+  DownloadPreviewOptions,
+  DownloadPreviewResult,
+  DownloadProgress,
+  DownloadTarget,
+  EpisodePreview,
+  EpisodeType,
+  FallbackProviderOptions,
+  GetCollectionPreviewsOptions,
+  GetEpisodePreviewOptions,
+  GetPreviewAvailabilityOptions,
+  GetPreviewOptions,
+  GetPreviewResultOptions,
+  GetPreviewsOptions,
+  GetTrackInfoOptions,
+  ITunesProviderOptions,
+  LatencyStats,
+  LocaleOptions,
+  LogFormat,
+  LoggerOptions,
+  LogRecord,
+  LookupErrorEvent,
+  MarketAvailability,
+  NoPreviewEvent,
+  PreviewAudioInfo,
+  PreviewChangeEvent,
+  PreviewAudioInput,
+  PreviewAvailability,
+  PreviewCandidate,
+  PreviewCacheEntry,
+  PreviewCacheOptions,
+  PreviewCacheStore,
+  PreviewEventBase,
+  PreviewEventListener,
+  PreviewEventListeners,
+  PreviewEventMap,
+  PreviewEventName,
+  PreviewFailure,
+  PreviewFailureErrors,
+  PreviewFailureReason,
+  PreviewFoundEvent,
+  PreviewHandlerOptions,
+  PreviewLookupResult,
+  PreviewMatch,
+  PreviewProvider,
+  PreviewProviderContext,
+  PreviewResult,
+  PreviewServerOptions,
+  PreviewStateStore,
+  PreviewStats,
+  PreviewSuccess,
+  PreviewVerification,
+  RateLimitOptions,
+  RequestEvent,
+  RequestOptions,
+  ResponseEvent,
+  RetryEvent,
+  RetryOptions,
+  SpotifyAudioPreviewsConfig,
+  SpotifyEntityType,
+  SpotifyReference,
+  SpotifyReferenceType,
+  TrackArtist,
+  TransportOptions,
+  TrackImage,
+  TrackInfo,
+  VerifyMethod,
+  VerifyPreviewOptions,
+  WatchCheckEvent,
+  WatchedPreviewState,
+  WatchErrorEvent,
+  WatchEventListener,
+  WatchEventMap,
+  WatchEventName,
+  WatchPreviewsOptions,
+  WebApiProviderOptions,
+} from "./types/index";
+export { SpotifyPreviewClient } from "./client";
+export { DeezerProvider } from "./providers/deezer.provider";
+export { EmbedProvider } from "./providers/embed.provider";
+export { ITunesProvider } from "./providers/itunes.provider";
+export { WebApiProvider } from "./providers/web-api.provider";
+export type { PreviewHandler } from "./server";
 export { withLogger } from "./utils/logger.utils";
+export { FileCacheStore, MemoryCacheStore } from "./utils/cache.utils";
 export * from "./utils/parser.utils";
+export { inspectPreviewAudio } from "./utils/audio.utils";
+export { PreviewWatcher } from "./utils/watch.utils";
+export type { PreviewCheck } from "./utils/watch.utils";
 export * from "./errors";
-export { configure, getPreview };
+export {
+  configure,
+  createPreviewHandler,
+  downloadPreview,
+  getAlbumPreviews,
+  getArtistTopTrackPreviews,
+  getChapterPreview,
+  getEpisodePreview,
+  getPlaylistPreviews,
+  getPreview,
+  getPreviewAvailability,
+  getPreviewResult,
+  getPreviews,
+  getRateLimitQueueDepth,
+  getStats,
+  getTrackInfo,
+  off,
+  on,
+  once,
+  resolveSpotifyReference,
+  startPreviewServer,
+  verifyPreview,
+  watchPreviews,
+};
@@ -0,0 +1,148 @@
+import { RateLimitedError, SpotifyApiError } from "../errors";
+import {
+  FallbackProviderOptions,
+  PreviewCandidate,
+  PreviewMatch,
+  PreviewProvider,
+  PreviewProviderContext,
+  TrackInfo,
+} from "../types/index";
+import { createResponseError } from "../utils/http.utils";
+import { getMatchTarget, pickBestMatch } from "../utils/match.utils";
+
+const DEFAULT_BASE_URL = "https://api.deezer.com";
+const DEFAULT_MIN_CONFIDENCE = 0.75;
+const DEFAULT_LIMIT = 10;
+// Error code Deezer answers with when the request quota is exceeded
+const QUOTA_EXCEEDED_CODE = 4;
+
+/**
+ * Fallback provider finding a preview of the same recording on Deezer. The
+ * track is looked up by ISRC when the Spotify embed page includes one, and
+ * searched by title and artist otherwise. Opt-in: add it after the Spotify
+ * providers.
+ */
+export class DeezerProvider implements PreviewProvider {
+  readonly name = "deezer";
+
+  private baseUrl: string;
+  private minConfidence: number;
+  private limit: number;
+
+  /**
+   * @param options - Base URL of the Deezer API and matching settings
+   */
+  constructor(options: FallbackProviderOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+    this.minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+    this.limit = options.limit ?? DEFAULT_LIMIT;
+  }
+
+  async getPreviewUrl(
+    trackId: string,
+    context: PreviewProviderContext
+  ): Promise<PreviewMatch | null> {
+    const target = await getMatchTarget(trackId, context);
+
+    const candidates = target.isrc
+      ? await this.findByIsrc(target.isrc, context)
+      : [];
+    if (!candidates.length) {
+      candidates.push(...(await this.search(target, context)));
+    }
+
+    return pickBestMatch(
+      target,
+      candidates,
+      this.name,
+      this.minConfidence,
+      context.log
+    );
+  }
+
+  /**
+   * Looks up the Deezer track with an ISRC.
+   */
+  private async findByIsrc(
+    isrc: string,
+    context: PreviewProviderContext
+  ): Promise<PreviewCandidate[]> {
+    context.log.debug(`Looking up Deezer track with ISRC: ${isrc}`);
+    const body = await this.request(
+      `${this.baseUrl}/track/isrc:${encodeURIComponent(isrc)}`,
+      context
+    );
+    // Deezer reports unknown ISRCs as an error in a successful response
+    if (body.error) return [];
+    return toCandidates([body]);
+  }
+
+  /**
+   * Searches Deezer for the title and main artist of the track.
+   */
+  private async search(
+    target: TrackInfo,
+    context: PreviewProviderContext
+  ): Promise<PreviewCandidate[]> {
+    const artist = target.artists[0]?.name;
+    const query = artist
+      ? `artist:"${artist}" track:"${target.title}"`
+      : `track:"${target.title}"`;
+    context.log.debug(`Searching Deezer for: ${query}`);
+
+    const body = await this.request(
+      `${this.baseUrl}/search?q=${encodeURIComponent(query)}&limit=${
+        this.limit
+      }`,
+      context
+    );
+    if (body.error) {
+      throw new SpotifyApiError(
+        `Deezer search failed: ${body.error.message ?? "unknown error"}`
+      );
+    }
+    return toCandidates(Array.isArray(body.data) ? body.data : []);
+  }
+
+  /**
+   * Requests a Deezer API endpoint, returning the JSON body.
+   */
+  private async request(
+    url: string,
+    context: PreviewProviderContext
+  ): Promise<any> {
+    const response = await context.request(url, undefined, {
+      transportHeaders: false,
+    });
+    context.log.debug(`Response status: ${response.status}`);
+
+    if (!response.ok) {
+      context.log.error(
+        `Deezer API error: ${response.status} ${response.statusText}`
+      );
+      throw createResponseError(`Failed to query the Deezer API`, response);
+    }
+
+    const body = await response.json();
+    if (body?.error?.code === QUOTA_EXCEEDED_CODE) {
+      throw new RateLimitedError(`Deezer API quota exceeded`);
+    }
+    return body ?? {};
+  }
+}
+
+/**
+ * Maps Deezer track objects with a preview to candidates.
+ */
+function toCandidates(tracks: any[]): PreviewCandidate[] {
+  return tracks
+    .filter((track) => typeof track?.preview === "string" && track.preview)
+    .map((track) => ({
+      previewUrl: track.preview,
+      title: track.title ?? "",
+      artists: track.artist?.name ? [track.artist.name] : [],
+      durationMs:
+        typeof track.duration === "number" ? track.duration * 1000 : null,
+      isrc: track.isrc ?? null,
+    }));
+}
@@ -0,0 +1,72 @@
+import { RegionRestrictedError, TrackNotFoundError } from "../errors";
+import {
+  PreviewProvider,
+  PreviewProviderContext,
+  SpotifyEntityType,
+} from "../types/index";
+import { throwIfAborted } from "../utils/abort.utils";
+import { extractPreviewUrl } from "../utils/embed.utils";
+import { createResponseError } from "../utils/http.utils";
+
+/**
+ * Fetches the HTML of the Spotify embed page of an entity, for the call's
+ * market if one is set.
+ *
+ * @param type - The type of entity
+ * @param id - The entity ID
+ * @param context - Request helpers for this call
+ * @returns The HTML of the embed page
+ * @throws {TrackNotFoundError} If a track page is not found
+ * @throws {RegionRestrictedError} If the entity is not available in the market
+ * @throws {RateLimitedError} If Spotify rejects the request with a 429
+ * @throws {SpotifyApiError} If the request fails or the response is not successful
+ */
+export async function fetchEmbedHtml(
+  type: SpotifyEntityType,
+  id: string,
+  context: Omit<PreviewProviderContext, "getEmbedPage">
+): Promise<string> {
+  const { log } = context;
+  const query = context.market ? `?market=${context.market}` : "";
+  const response = await context.request(`/embed/${type}/${id}${query}`);
+  log.debug(`Response status: ${response.status}`);
+
+  if (!response.ok) {
+    log.error(`API error: ${response.status} ${response.statusText}`);
+    if (response.status === 404 && type === "track") {
+      throw new TrackNotFoundError(id);
+    }
+    if (response.status === 451) {
+      throw new RegionRestrictedError(
+        `Failed to fetch ${type} preview data`,
+        451,
+        { market: context.market }
+      );
+    }
+    throw createResponseError(`Failed to fetch ${type} preview data`, response);
+  }
+
+  try {
+    return await response.text();
+  } catch (error) {
+    // Aborting while the body is being read rejects text()
+    throwIfAborted(context.signal);
+    throw error;
+  }
+}
+
+/**
+ * Finds previews by scraping the public Spotify embed page of the track.
+ * No credentials are needed; this is the default provider.
+ */
+export class EmbedProvider implements PreviewProvider {
+  readonly name = "embed";
+
+  async getPreviewUrl(
+    trackId: string,
+    context: PreviewProviderContext
+  ): Promise<string | null> {
+    const html = await context.getEmbedPage();
+    return extractPreviewUrl(html, context.log);
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  ITunesProviderOptions,
+  PreviewCandidate,
+  PreviewMatch,
+  PreviewProvider,
+  PreviewProviderContext,
+} from "../types/index";
+import { createResponseError } from "../utils/http.utils";
+import { getMatchTarget, pickBestMatch } from "../utils/match.utils";
+
+const DEFAULT_BASE_URL = "https://itunes.apple.com";
+const DEFAULT_COUNTRY = "US";
+const DEFAULT_MIN_CONFIDENCE = 0.75;
+const DEFAULT_LIMIT = 10;
+
+/**
+ * Fallback provider finding a preview of the same recording through the
+ * iTunes Search API, searched by title and artist. Opt-in: add it after the
+ * Spotify providers.
+ */
+export class ITunesProvider implements PreviewProvider {
+  readonly name = "itunes";
+
+  private baseUrl: string;
+  private country?: string;
+  private minConfidence: number;
+  private limit: number;
+
+  /**
+   * @param options - Base URL of the iTunes Search API and matching settings
+   */
+  constructor(options: ITunesProviderOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+    this.country = options.country;
+    this.minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+    this.limit = options.limit ?? DEFAULT_LIMIT;
+  }
+
+  async getPreviewUrl(
+    trackId: string,
+    context: PreviewProviderContext
+  ): Promise<PreviewMatch | null> {
+    const { log } = context;
+    const target = await getMatchTarget(trackId, context);
+    const term = [target.artists[0]?.name, target.title]
+      .filter(Boolean)
+      .join(" ");
+    log.debug(`Searching iTunes for: ${term}`);
+
+    const params = new URLSearchParams({
+      term,
+      media: "music",
+      entity: "song",
+      country: this.country ?? context.market ?? DEFAULT_COUNTRY,
+      limit: String(this.limit),
+    });
+    const response = await context.request(
+      `${this.baseUrl}/search?${params}`,
+      undefined,
+      { transportHeaders: false }
+    );
+    log.debug(`Response status: ${response.status}`);
+
+    if (!response.ok) {
+      log.error(`iTunes API error: ${response.status} ${response.statusText}`);
+      throw createResponseError(`Failed to search the iTunes API`, response);
+    }
+
+    const body = await response.json();
+    const candidates = (Array.isArray(body?.results) ? body.results : [])
+      .filter((result: any) => typeof result?.previewUrl === "string")
+      .map(
+        (result: any): PreviewCandidate => ({
+          previewUrl: result.previewUrl,
+          title: result.trackName ?? "",
+          artists: result.artistName ? [result.artistName] : [],
+          durationMs:
+            typeof result.trackTimeMillis === "number"
+              ? result.trackTimeMillis
+              : null,
+          isrc: null,
+        })
+      );
+
+    return pickBestMatch(
+      target,
+      candidates,
+      this.name,
+      this.minConfidence,
+      log
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import {
+  RegionRestrictedError,
+  SpotifyApiError,
+  TrackNotFoundError,
+} from "../errors";
+import {
+  PreviewProvider,
+  PreviewProviderContext,
+  WebApiProviderOptions,
+} from "../types/index";
+import { createResponseError } from "../utils/http.utils";
+
+const DEFAULT_ACCOUNTS_BASE_URL = "https://accounts.spotify.com";
+const DEFAULT_API_BASE_URL = "https://api.spotify.com";
+// Tokens are refreshed this long before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Finds previews through the official Spotify Web API, authenticating with
+ * the client credentials flow. Access tokens are cached and refreshed shortly
+ * before they expire, or when the API rejects them.
+ */
+export class WebApiProvider implements PreviewProvider {
+  readonly name = "web-api";
+
+  private options: WebApiProviderOptions;
+  private accountsBaseUrl: string;
+  private apiBaseUrl: string;
+  private token?: { value: string; expiresAt: number };
+  private pendingToken?: Promise<string>;
+
+  /**
+   * @param options - Credentials of the Spotify application and base URLs
+   */
+  constructor(options: WebApiProviderOptions) {
+    this.options = options;
+    this.accountsBaseUrl = (
+      options.accountsBaseUrl ?? DEFAULT_ACCOUNTS_BASE_URL
+    ).replace(/\/+$/, "");
+    this.apiBaseUrl = (options.apiBaseUrl ?? DEFAULT_API_BASE_URL).replace(
+      /\/+$/,
+      ""
+    );
+  }
+
+  async getPreviewUrl(
+    trackId: string,
+    context: PreviewProviderContext
+  ): Promise<string | null> {
+    const { log, market } = context;
+    const query = market ? `?market=${market}` : "";
+    const url = `${this.apiBaseUrl}/v1/tracks/${trackId}${query}`;
+
+    let response = await this.requestTrack(url, context);
+    if (response.status === 401) {
+      // The token was revoked or expired early: get a new one and try once more
+      log.info(`Web API rejected the access token, refreshing it`);
+      this.token = undefined;
+      response = await this.requestTrack(url, context);
+    }
+    log.debug(`Response status: ${response.status}`);
+
+    if (response.status === 404) {
+      log.warn(`Web API has no track with ID: ${trackId}`);
+      throw new TrackNotFoundError(trackId);
+    }
+    if (!response.ok) {
+      log.error(`API error: ${response.status} ${response.statusText}`);
+      throw createResponseError(
+        `Failed to fetch track from the Web API`,
+        response
+      );
+    }
+
+    const track = await response.json();
+    if (track?.restrictions?.reason === "market") {
+      throw new RegionRestrictedError(
+        `Track ${trackId} is not available in ${market ?? "this market"}`,
+        undefined,
+        { market }
+      );
+    }
+    return typeof track?.preview_url === "string" ? track.preview_url : null;
+  }
+
+  /**
+   * Requests a track with a valid access token.
+   */
+  private async requestTrack(
+    url: string,
+    context: PreviewProviderContext
+  ): Promise<Response> {
+    const token = await this.getAccessToken(context);
+    return context.request(url, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  }
+
+  /**
+   * Returns the cached access token, requesting a new one if it is missing or
+   * about to expire. Concurrent calls share a single token request.
+   */
+  private async getAccessToken(
+    context: PreviewProviderContext
+  ): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now()) {
+      return this.token.value;
+    }
+
+    if (!this.pendingToken) {
+      this.pendingToken = this.requestAccessToken(context).finally(() => {
+        this.pendingToken = undefined;
+      });
+    }
+    return this.pendingToken;
+  }
+
+  /**
+   * Requests an access token with the client credentials flow.
+   */
+  private async requestAccessToken(
+    context: PreviewProviderContext
+  ): Promise<string> {
+    const { log } = context;
+    log.debug(`Requesting Web API access token`);
+
+    const credentials = btoa(
+      `${this.options.clientId}:${this.options.clientSecret}`
+    );
+    const response = await context.request(
+      `${this.accountsBaseUrl}/api/token`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: "grant_type=client_credentials",
+      }
+    );
+
+    if (!response.ok) {
+      log.error(`Token error: ${response.status} ${response.statusText}`);
+      throw createResponseError(
+        `Failed to get a Web API access token`,
+        response
+      );
+    }
+
+    const body = await response.json();
+    if (typeof body?.access_token !== "string") {
+      throw new SpotifyApiError(`Web API token response has no access token`);
+    }
+
+    const expiresInMs = (Number(body.expires_in) || 3600) * 1000;
+    this.token = {
+      value: body.access_token,
+      expiresAt: Date.now() + expiresInMs - TOKEN_EXPIRY_MARGIN_MS,
+    };
+    log.info(`Got Web API access token, valid for ${body.expires_in}s`);
+    return this.token.value;
+  }
+}
@@ -0,0 +1,347 @@
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from "node:http";
+import type { SpotifyPreviewClient } from "./client";
+import {
+  EmbedParseError,
+  InvalidMarketError,
+  InvalidSpotifyIdError,
+  InvalidSpotifyUrlError,
+  NoPreviewAvailableError,
+  RegionRestrictedError,
+  SpotifyApiError,
+  SpotifyPreviewError,
+  SpotifyTimeoutError,
+  TrackNotFoundError,
+} from "./errors";
+import { logger } from "./utils/logger.utils";
+import {
+  PreviewHandlerOptions,
+  PreviewResult,
+  PreviewServerOptions,
+} from "./types/index";
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_CACHE_MAX_AGE_SECONDS = 3600;
+const DEFAULT_MAX_BATCH_SIZE = 100;
+// Maximum size of a request body
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * A request handler compatible with `node:http` and frameworks built on it.
+ */
+export type PreviewHandler = (
+  req: IncomingMessage,
+  res: ServerResponse
+) => Promise<void>;
+
+/**
+ * Error raised for malformed requests, before any lookup is made.
+ */
+class HttpError extends Error {
+  statusCode: number;
+  headers: Record<string, string>;
+
+  constructor(
+    statusCode: number,
+    message: string,
+    headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = "HttpError";
+    this.statusCode = statusCode;
+    this.headers = headers;
+  }
+}
+
+/**
+ * Creates a request handler serving preview lookups over HTTP:
+ *
+ * - `GET /preview/:idOrUri`: the preview URL as JSON, or a 302 redirect to it
+ * - `GET /track/:id`: the track metadata as JSON
+ * - `POST /previews`: a batch lookup for `{ "tracks": [...] }`
+ *
+ * @param client - Client used for lookups
+ * @param options - Handler options
+ * @returns The request handler
+ */
+function createPreviewHandler(
+  client: SpotifyPreviewClient,
+  options: PreviewHandlerOptions = {}
+): PreviewHandler {
+  const log = options.logger ? logger.withOptions(options.logger) : logger;
+  const basePath = (options.basePath ?? "").replace(/\/+$/, "");
+  const maxAge = options.cacheMaxAgeSeconds ?? DEFAULT_CACHE_MAX_AGE_SECONDS;
+  const maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+
+  return async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    log.debug(`${req.method} ${url.pathname}${url.search}`);
+
+    if (options.cors !== false) {
+      res.setHeader("Access-Control-Allow-Origin", options.cors ?? "*");
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+      res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    }
+
+    // Cancel the lookup if the client goes away
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    const requestOptions = {
+      ...options.requestOptions,
+      signal: controller.signal,
+    };
+
+    try {
+      if (!url.pathname.startsWith(`${basePath}/`)) {
+        throw new HttpError(404, "Not found");
+      }
+      const [route, param, ...rest] = url.pathname
+        .slice(basePath.length + 1)
+        .split("/");
+      if (req.method === "OPTIONS") {
+        res.writeHead(204).end();
+        return;
+      }
+
+      if (route === "preview" && param && !rest.length) {
+        assertMethod(req, "GET");
+        const [result] = await client.getPreviews([decodeParam(param)], {
+          ...requestOptions,
+          throws: true,
+        });
+        if (result.error) throw result.error;
+
+        const redirect = url.searchParams.has("redirect")
+          ? url.searchParams.get("redirect") !== "false"
+          : options.redirect === true;
+        if (redirect) {
+          res.setHeader("Cache-Control", `public, max-age=${maxAge}`);
+          res.writeHead(302, { Location: result.previewUrl! }).end();
+          return;
+        }
+        sendJson(res, 200, serializeResult(result), maxAge);
+        return;
+      }
+
+      if (route === "track" && param && !rest.length) {
+        assertMethod(req, "GET");
+        const info = await client.getTrackInfo(
+          decodeParam(param),
+          requestOptions
+        );
+        sendJson(res, 200, info, maxAge);
+        return;
+      }
+
+      if (route === "previews" && !param) {
+        assertMethod(req, "POST");
+        const tracks = parseBatch(await readBody(req), maxBatchSize);
+        const results = await client.getPreviews(tracks, requestOptions);
+        // Failed lookups may succeed on the next try, so are not cached
+        const failed = results.some((result) => result.error);
+        sendJson(
+          res,
+          200,
+          results.map(serializeResult),
+          failed ? undefined : maxAge
+        );
+        return;
+      }
+
+      throw new HttpError(404, "Not found");
+    } catch (error) {
+      if (controller.signal.aborted) {
+        log.debug(`Client closed the connection`);
+        return;
+      }
+
+      const status = getErrorStatus(error);
+      if (status >= 500) {
+        log.error(`Request failed: ${req.method} ${url.pathname}`, error);
+      } else {
+        log.debug(`Request rejected with status ${status}: ${error.message}`);
+      }
+      if (error instanceof HttpError) {
+        for (const [name, value] of Object.entries(error.headers)) {
+          res.setHeader(name, value);
+        }
+      }
+      sendJson(res, status, { error: serializeError(error) });
+    }
+  };
+}
+
+/**
+ * Starts an HTTP server serving preview lookups.
+ *
+ * @param client - Client used for lookups
+ * @param options - Server and handler options
+ * @returns The listening server; call `close()` to stop it
+ */
+async function startPreviewServer(
+  client: SpotifyPreviewClient,
+  options: PreviewServerOptions = {}
+): Promise<Server> {
+  const log = options.logger ? logger.withOptions(options.logger) : logger;
+  const server = createServer(createPreviewHandler(client, options));
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? DEFAULT_PORT, options.host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  log.info(`Preview server listening on`, server.address());
+  return server;
+}
+
+/**
+ * Maps an error to the HTTP status code of the response.
+ *
+ * @param error - The error thrown while handling the request
+ * @returns The status code
+ */
+function getErrorStatus(error: unknown): number {
+  if (error instanceof HttpError) return error.statusCode;
+  if (
+    error instanceof InvalidSpotifyIdError ||
+    error instanceof InvalidSpotifyUrlError ||
+    error instanceof InvalidMarketError
+  ) {
+    return 400;
+  }
+  if (
+    error instanceof NoPreviewAvailableError ||
+    error instanceof TrackNotFoundError
+  ) {
+    return 404;
+  }
+  if (error instanceof RegionRestrictedError) return 451;
+  if (error instanceof SpotifyTimeoutError) return 504;
+  if (error instanceof SpotifyApiError || error instanceof EmbedParseError) {
+    return 502;
+  }
+  return 500;
+}
+
+/**
+ * Throws a 405 error unless the request uses the given method.
+ */
+function assertMethod(req: IncomingMessage, method: string): void {
+  if (req.method !== method) {
+    throw new HttpError(405, `Method not allowed`, { Allow: method });
+  }
+}
+
+/**
+ * Decodes a percent-encoded path parameter.
+ */
+function decodeParam(param: string): string {
+  try {
+    return decodeURIComponent(param);
+  } catch {
+    throw new HttpError(400, "Malformed path parameter");
+  }
+}
+
+/**
+ * Reads the request body as text, up to MAX_BODY_BYTES.
+ */
+async function readBody(req: IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large");
+    }
+  }
+  return body;
+}
+
+/**
+ * Parses a batch request body: `{ "tracks": [...] }` or a bare array.
+ */
+function parseBatch(body: string, maxBatchSize: number): string[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new HttpError(400, "Request body must be JSON");
+  }
+
+  const tracks = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { tracks?: unknown } | null)?.tracks;
+  if (
+    !Array.isArray(tracks) ||
+    !tracks.every((track) => typeof track === "string")
+  ) {
+    throw new HttpError(
+      400,
+      'Request body must be { "tracks": [...] } with track IDs or URLs'
+    );
+  }
+  if (tracks.length > maxBatchSize) {
+    throw new HttpError(
+      400,
+      `Too many tracks: ${tracks.length}. At most ${maxBatchSize} are allowed.`
+    );
+  }
+
+  return tracks;
+}
+
+/**
+ * Writes a JSON response. Successful responses may be cached for `maxAge` seconds.
+ */
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  maxAge?: number
+): void {
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Cache-Control":
+      maxAge !== undefined ? `public, max-age=${maxAge}` : "no-store",
+  });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Converts a lookup result to JSON-friendly form.
+ */
+function serializeResult(result: PreviewResult) {
+  return {
+    input: result.input,
+    trackId: result.trackId,
+    previewUrl: result.previewUrl,
+    provider: result.provider,
+    source: result.source,
+    matchConfidence: result.matchConfidence,
+    market: result.market,
+    error: result.error ? serializeError(result.error) : null,
+  };
+}
+
+/**
+ * Converts an error to JSON-friendly form, hiding unexpected errors.
+ */
+function serializeError(error: Error) {
+  if (getErrorStatus(error) === 500) {
+    return { name: "Error", message: "Internal server error" };
+  }
+  return error instanceof SpotifyPreviewError
+    ? { name: error.name, code: error.code, message: error.message }
+    : { name: error.name, message: error.message };
+}
+
+export { createPreviewHandler, getErrorStatus, startPreviewServer };
@@ -1,9 +1,84 @@
+import { SpotifyPreviewError } from "../errors";
+import { PreviewCacheOptions } from "./cache.types";
+import { PreviewEventListeners } from "./events.types";
 import { LoggerOptions } from "./logger.types";
+import { PreviewProvider } from "./provider.types";
+import { RateLimitOptions } from "./rate-limit.types";
+import { RetryOptions } from "./retry.types";
+
+/**
+ * Options controlling how HTTP requests are sent.
+ */
+export interface TransportOptions {
+  /**
+   * Fetch implementation used for every request, e.g. to route requests through a proxy
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Headers added to every request (e.g. User-Agent or Accept-Language)
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Base URL of the Spotify web player, e.g. to point at a local stand-in server
+   * @default "https://open.spotify.com"
+   */
+  baseUrl?: string;
+}
+
+/**
+ * Options selecting the country and language lookups are made for.
+ */
+export interface LocaleOptions {
+  /**
+   * ISO 3166-1 alpha-2 country code (e.g. "DE") to look previews up for,
+   * sent as the `market` query parameter
+   */
+  market?: string;
+
+  /**
+   * Language of the responses (e.g. "de-DE"), sent as the Accept-Language header
+   */
+  locale?: string;
+}
+
+/**
+ * Options shared by every function that makes requests to Spotify.
+ */
+export interface RequestOptions extends TransportOptions, LocaleOptions {
+  /**
+   * Debug/logging options
+   */
+  logger?: LoggerOptions;
+
+  /**
+   * Correlation ID added to every log record of this call
+   * @default A random ID
+   */
+  requestId?: string;
+
+  /**
+   * Retry policy for this call, overriding the global one
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Maximum time in milliseconds for the whole call, including retries
+   */
+  timeoutMs?: number;
+
+  /**
+   * Signal to cancel the call
+   */
+  signal?: AbortSignal;
+}
 
 /**
  * Options for getPreview function.
  */
-export interface GetPreviewOptions {
+export interface GetPreviewOptions extends RequestOptions {
   /**
    * Whether to throw an error if no preview URL is found
    * @default false
@@ -11,17 +86,222 @@ export interface GetPreviewOptions {
   throws?: boolean;
 
   /**
-   * Debug/logging options
+   * Cache options for this call, or `false` to bypass the global cache
    */
-  logger?: LoggerOptions;
+  cache?: PreviewCacheOptions | false;
+
+  /**
+   * Providers for this call, overriding the global ones
+   */
+  providers?: PreviewProvider[];
+
+  /**
+   * Whether to check that the preview URL is reachable, treating an
+   * unreachable preview as no preview
+   * @default false
+   */
+  verify?: boolean;
+}
+
+/**
+ * Options for getTrackInfo function.
+ */
+export type GetTrackInfoOptions = RequestOptions;
+
+/**
+ * Options for getAlbumPreviews, getPlaylistPreviews and getArtistTopTrackPreviews functions.
+ */
+export type GetCollectionPreviewsOptions = RequestOptions;
+
+/**
+ * Options for getEpisodePreview and getChapterPreview functions.
+ */
+export interface GetEpisodePreviewOptions extends RequestOptions {
+  /**
+   * Whether to throw an error if no preview URL is found
+   * @default false
+   */
+  throws?: boolean;
+}
+
+/**
+ * Options for getPreviewAvailability function.
+ */
+export interface GetPreviewAvailabilityOptions
+  extends Omit<GetPreviewOptions, "throws" | "market"> {
+  /**
+   * Maximum number of markets looked up at the same time
+   * @default 5
+   */
+  concurrency?: number;
+}
+
+/**
+ * Preview availability of a track in one market.
+ */
+export interface MarketAvailability {
+  /**
+   * The market, as an uppercase ISO 3166-1 alpha-2 country code
+   */
+  market: string;
+
+  /**
+   * Whether the track has a preview in this market
+   */
+  available: boolean;
+
+  /**
+   * The preview URL in this market, or null if there is none
+   */
+  previewUrl: string | null;
+
+  /**
+   * Whether the track is known to be unavailable in this market
+   */
+  restricted: boolean;
+
+  /**
+   * The error raised while looking up this market, if any
+   */
+  error: SpotifyPreviewError | null;
+}
+
+/**
+ * Preview availability of a track across markets, as returned by getPreviewAvailability.
+ */
+export interface PreviewAvailability {
+  trackId: string;
+
+  /**
+   * One entry per market, in the order they were passed in
+   */
+  markets: MarketAvailability[];
+}
+
+/**
+ * Progress information reported by getPreviews.
+ */
+export interface BatchProgress {
+  /**
+   * Number of inputs that have finished processing (successfully or not)
+   */
+  completed: number;
+
+  /**
+   * Total number of inputs in the batch
+   */
+  total: number;
+
+  /**
+   * The result of the input that just finished
+   */
+  result: PreviewResult;
+}
+
+/**
+ * Options for getPreviews function.
+ */
+export interface GetPreviewsOptions extends GetPreviewOptions {
+  /**
+   * Maximum number of tracks fetched at the same time
+   * @default 5
+   */
+  concurrency?: number;
+
+  /**
+   * Called every time an input finishes processing
+   */
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+/**
+ * Result of a single input processed by getPreviews.
+ */
+export interface PreviewResult {
+  /**
+   * The track ID or URL exactly as it was passed in
+   */
+  input: string;
+
+  /**
+   * The resolved track ID, or null if the input could not be parsed
+   */
+  trackId: string | null;
+
+  /**
+   * The preview URL, or null if no preview was found or an error occurred
+   */
+  previewUrl: string | null;
+
+  /**
+   * Name of the provider that answered, or null if an error occurred
+   */
+  provider: string | null;
+
+  /**
+   * Service hosting the preview, e.g. "spotify" or "deezer", or null if
+   * there is no preview
+   */
+  source: string | null;
+
+  /**
+   * How closely the preview matches the track, from 0 to 1, or null if
+   * there is no preview
+   */
+  matchConfidence: number | null;
+
+  /**
+   * The market the lookup was made for, or null if none was set
+   */
+  market: string | null;
+
+  /**
+   * The error raised while processing this input, if any
+   */
+  error: SpotifyPreviewError | null;
 }
 
 /**
  * Global configuration for the package.
  */
-export interface SpotifyAudioPreviewsConfig {
+export interface SpotifyAudioPreviewsConfig
+  extends TransportOptions,
+    LocaleOptions {
   /**
    * Global logger configuration that applies to all operations
    */
   logger?: LoggerOptions;
+
+  /**
+   * Global cache configuration for preview lookups. Disabled by default.
+   */
+  cache?: PreviewCacheOptions | false;
+
+  /**
+   * Global retry policy for requests to Spotify. Requests are not retried by default.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Default timeout in milliseconds for each call, including retries. No timeout by default.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Rate limit shared by every request made with this configuration, or `false`
+   * to remove it. Requests are not rate limited by default.
+   */
+  rateLimit?: RateLimitOptions | false;
+
+  /**
+   * Providers asked for preview URLs, in order, until one has a preview.
+   * @default [new EmbedProvider()]
+   */
+  providers?: PreviewProvider[];
+
+  /**
+   * Lifecycle event listeners, one per event. Listeners added with `on()`
+   * are called as well.
+   */
+  on?: PreviewEventListeners;
 }
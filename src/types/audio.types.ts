@@ -0,0 +1,49 @@
+/**
+ * Audio data accepted by inspectPreviewAudio: a Buffer or byte array, a web
+ * ReadableStream, or any async iterable of chunks such as a Node.js Readable.
+ */
+export type PreviewAudioInput =
+  | Uint8Array
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
+/**
+ * Properties of an MP3 file, as read from its frame headers.
+ */
+export interface PreviewAudioInfo {
+  /**
+   * Playable duration of the frames present in the file, in milliseconds
+   */
+  durationMs: number;
+
+  /**
+   * Average bitrate of the audio frames, in kilobits per second
+   */
+  bitrateKbps: number;
+
+  /**
+   * Sample rate in Hz
+   */
+  sampleRate: number;
+
+  /**
+   * Number of channels: 1 for mono, 2 otherwise
+   */
+  channels: 1 | 2;
+
+  /**
+   * Number of audio frames in the file
+   */
+  frames: number;
+
+  /**
+   * Whether the file ends before its last frame does, or holds fewer frames
+   * than its Xing/VBRI header announces
+   */
+  truncated: boolean;
+
+  /**
+   * Whether invalid data was found between frames
+   */
+  corrupt: boolean;
+}
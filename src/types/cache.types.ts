@@ -0,0 +1,77 @@
+/**
+ * A cached preview lookup result.
+ */
+export interface PreviewCacheEntry {
+  /**
+   * The preview URL, or null if the track had no preview
+   */
+  previewUrl: string | null;
+
+  /**
+   * Name of the provider that answered. Entries written by older versions
+   * have none.
+   */
+  provider?: string | null;
+
+  /**
+   * Service hosting the preview, or null if there is none
+   */
+  source?: string | null;
+
+  /**
+   * How closely the preview matches the track, from 0 to 1, or null if
+   * there is no preview
+   */
+  matchConfidence?: number | null;
+
+  /**
+   * Unix timestamp (in milliseconds) after which the entry is stale
+   */
+  expiresAt: number;
+}
+
+/**
+ * Storage backend for cached preview lookups.
+ * Methods may be synchronous or return promises.
+ */
+export interface PreviewCacheStore {
+  /**
+   * Get the entry stored under `key`, or undefined if there is none
+   */
+  get(
+    key: string
+  ): PreviewCacheEntry | undefined | Promise<PreviewCacheEntry | undefined>;
+
+  /**
+   * Store an entry under `key`
+   */
+  set(key: string, entry: PreviewCacheEntry): void | Promise<void>;
+
+  /**
+   * Remove the entry stored under `key`
+   */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Options for caching preview lookups.
+ */
+export interface PreviewCacheOptions {
+  /**
+   * Where cached entries are stored
+   * @default the client's own in-memory LRU store (a `MemoryCacheStore`)
+   */
+  store?: PreviewCacheStore;
+
+  /**
+   * How long a found preview URL is cached, in milliseconds
+   * @default 3600000 (1 hour)
+   */
+  ttlMs?: number;
+
+  /**
+   * How long a "no preview" result is cached, in milliseconds
+   * @default 300000 (5 minutes)
+   */
+  noPreviewTtlMs?: number;
+}
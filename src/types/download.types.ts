@@ -0,0 +1,54 @@
+import type { Readable } from "node:stream";
+import { GetPreviewOptions } from "./app.types";
+
+/**
+ * Where downloadPreview delivers the audio: a readable stream, a Buffer, or a file path.
+ */
+export type DownloadTarget = "stream" | "buffer" | (string & {});
+
+/**
+ * Progress information reported while a preview is downloaded.
+ */
+export interface DownloadProgress {
+  /**
+   * Number of bytes received so far
+   */
+  bytes: number;
+
+  /**
+   * Total size from the Content-Length header, or null if unknown
+   */
+  totalBytes: number | null;
+}
+
+/**
+ * Options for downloadPreview function.
+ */
+export interface DownloadPreviewOptions
+  extends Omit<GetPreviewOptions, "throws"> {
+  /**
+   * Where to deliver the audio: "stream", "buffer", or the path of a file to write
+   */
+  to: DownloadTarget;
+
+  /**
+   * Maximum size of the download in bytes
+   * @default 10485760 (10 MiB)
+   */
+  maxBytes?: number;
+
+  /**
+   * Called every time a chunk of audio is received
+   */
+  onProgress?: (progress: DownloadProgress) => void;
+}
+
+/**
+ * Result of downloadPreview: a Node.js Readable for "stream", a Buffer for
+ * "buffer", and the path of the written file otherwise.
+ */
+export type DownloadPreviewResult<T extends DownloadTarget> = T extends "stream"
+  ? Readable
+  : T extends "buffer"
+  ? Buffer
+  : string;
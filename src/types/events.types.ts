@@ -0,0 +1,205 @@
+/**
+ * Fields shared by every lifecycle event.
+ */
+export interface PreviewEventBase {
+  /**
+   * Correlation ID of the call, as in its log records
+   */
+  requestId: string;
+
+  /**
+   * ID of the track being looked up, once known
+   */
+  trackId: string | null;
+}
+
+/**
+ * Emitted before each HTTP request is sent, after any rate limit wait.
+ */
+export interface RequestEvent extends PreviewEventBase {
+  url: string;
+  method: string;
+}
+
+/**
+ * Emitted when an HTTP request completes, or fails without a response.
+ */
+export interface ResponseEvent extends PreviewEventBase {
+  url: string;
+  method: string;
+
+  /**
+   * Status code of the response, or null if no response was received
+   */
+  status: number | null;
+
+  /**
+   * Time from sending the request to receiving the response headers
+   */
+  durationMs: number;
+
+  /**
+   * Error the request failed with, if no response was received
+   */
+  error?: Error;
+}
+
+/**
+ * Emitted when a failed attempt is about to be retried.
+ */
+export interface RetryEvent extends PreviewEventBase {
+  /**
+   * The attempt that failed, starting at 1
+   */
+  attempt: number;
+
+  /**
+   * Delay before the next attempt
+   */
+  delayMs: number;
+
+  /**
+   * Error the attempt failed with
+   */
+  error: Error;
+}
+
+/**
+ * Emitted when a lookup is answered from the cache.
+ */
+export interface CacheHitEvent extends PreviewEventBase {
+  trackId: string;
+  previewUrl: string | null;
+  durationMs: number;
+}
+
+/**
+ * Emitted when a lookup finds a preview.
+ */
+export interface PreviewFoundEvent extends PreviewEventBase {
+  trackId: string;
+  previewUrl: string;
+
+  /**
+   * Name of the provider that answered
+   */
+  provider: string | null;
+  durationMs: number;
+}
+
+/**
+ * Emitted when a lookup finds the track has no preview.
+ */
+export interface NoPreviewEvent extends PreviewEventBase {
+  trackId: string;
+
+  /**
+   * Name of the provider that answered
+   */
+  provider: string | null;
+  durationMs: number;
+}
+
+/**
+ * Emitted when a lookup fails.
+ */
+export interface LookupErrorEvent extends PreviewEventBase {
+  error: Error;
+  durationMs: number;
+}
+
+/**
+ * Lifecycle events and their payloads. Every lookup ends with exactly one
+ * `preview`, `noPreview` or `error` event.
+ */
+export interface PreviewEventMap {
+  request: RequestEvent;
+  response: ResponseEvent;
+  retry: RetryEvent;
+  cacheHit: CacheHitEvent;
+  preview: PreviewFoundEvent;
+  noPreview: NoPreviewEvent;
+  error: LookupErrorEvent;
+}
+
+/**
+ * Name of a lifecycle event.
+ */
+export type PreviewEventName = keyof PreviewEventMap;
+
+/**
+ * Listener for a lifecycle event.
+ */
+export type PreviewEventListener<E extends PreviewEventName> = (
+  event: PreviewEventMap[E]
+) => void;
+
+/**
+ * Listeners set through the configuration, one per event.
+ */
+export type PreviewEventListeners = {
+  [E in PreviewEventName]?: PreviewEventListener<E>;
+};
+
+/**
+ * Latency distribution of recent operations, in milliseconds.
+ */
+export interface LatencyStats {
+  /**
+   * Number of samples the percentiles are computed from
+   */
+  count: number;
+  p50: number | null;
+  p90: number | null;
+  p95: number | null;
+  p99: number | null;
+  max: number | null;
+}
+
+/**
+ * Snapshot of a client's runtime statistics since it was created.
+ */
+export interface PreviewStats {
+  /**
+   * Completed lookups, by outcome
+   */
+  lookups: {
+    total: number;
+    preview: number;
+    noPreview: number;
+    error: number;
+  };
+
+  /**
+   * Lookups answered from the cache
+   */
+  cacheHits: number;
+
+  /**
+   * HTTP requests sent
+   */
+  requests: number;
+
+  /**
+   * HTTP responses received, by status code
+   */
+  responses: Record<string, number>;
+
+  /**
+   * Retried attempts
+   */
+  retries: number;
+
+  /**
+   * Failed lookups, by error class name
+   */
+  errors: Record<string, number>;
+
+  /**
+   * Latency of the most recent lookups and HTTP requests
+   */
+  latency: {
+    lookup: LatencyStats;
+    request: LatencyStats;
+  };
+}
@@ -1,2 +1,14 @@
 export * from "./app.types";
 export * from "./logger.types";
+export * from "./track.types";
+export * from "./cache.types";
+export * from "./retry.types";
+export * from "./download.types";
+export * from "./audio.types";
+export * from "./server.types";
+export * from "./rate-limit.types";
+export * from "./provider.types";
+export * from "./events.types";
+export * from "./result.types";
+export * from "./watch.types";
+export * from "./verify.types";
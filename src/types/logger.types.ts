@@ -28,6 +28,55 @@ export enum LogLevel {
   DEBUG = 4,
 }
 
+/**
+ * Output format of the built-in console output.
+ *
+ * - `"text"`: human-readable lines, e.g. `[spotify-audio-previews INFO] message`
+ * - `"json"`: one JSON-encoded `LogRecord` per line
+ */
+export type LogFormat = "text" | "json";
+
+/**
+ * A structured log entry.
+ *
+ * Context fields added with `logger.child()` and the fields of plain object
+ * data are merged into the record; other data is stored under `data`, and
+ * errors under `error`.
+ */
+export interface LogRecord {
+  /**
+   * ISO 8601 timestamp
+   */
+  ts: string;
+
+  /**
+   * Log level name: `"ERROR"`, `"WARN"`, `"INFO"` or `"DEBUG"`
+   */
+  level: string;
+
+  /**
+   * Log message
+   */
+  msg: string;
+
+  /**
+   * Correlation ID shared by every entry logged during one call
+   */
+  requestId?: string;
+
+  /**
+   * ID of the track the entry relates to
+   */
+  trackId?: string;
+
+  /**
+   * Duration of the operation the entry reports on
+   */
+  durationMs?: number;
+
+  [field: string]: unknown;
+}
+
 /**
  * Logger options for configuring debug output.
  */
@@ -40,13 +89,31 @@ export interface LoggerOptions {
 
   /**
    * Custom logger function to use instead of console
-   * Function receives log level, message, and optional data.
+   * Function receives log level, message, optional data and the structured record.
    */
-  custom?: (level: string, message: string, data?: any) => void;
+  custom?: (
+    level: string,
+    message: string,
+    data: any,
+    record: LogRecord
+  ) => void;
 
   /**
    * Whether to include timestamps in log messages
    * @default true
    */
   timestamps?: boolean;
+
+  /**
+   * Format of the console output. Ignored when `custom` is set.
+   * @default "text"
+   */
+  format?: LogFormat;
+
+  /**
+   * Hook applied to every record before it is output, e.g. to remove tokens
+   * or shorten URLs. When set, text output and `custom` receive the fields of
+   * the redacted record as data instead of the original data.
+   */
+  redact?: (record: LogRecord) => LogRecord;
 }
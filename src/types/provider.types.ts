@@ -0,0 +1,172 @@
+import type { Logger } from "../utils/logger.utils";
+
+/**
+ * Options for a request sent through the provider context.
+ */
+export interface PreviewRequestOptions {
+  /**
+   * Whether to add the configured `headers`. They are meant for Spotify and
+   * may carry cookies or credentials, so providers querying other services
+   * should pass false.
+   * @default true
+   */
+  transportHeaders?: boolean;
+}
+
+/**
+ * What a provider gets to perform a lookup.
+ */
+export interface PreviewProviderContext {
+  /**
+   * Sends a request through the configured transport: custom fetch, headers,
+   * rate limit and the call's timeout and signal all apply. Paths are resolved
+   * against the configured base URL. Any status is returned as is; network
+   * errors are thrown as SpotifyApiError.
+   */
+  request(
+    url: string,
+    init?: RequestInit,
+    options?: PreviewRequestOptions
+  ): Promise<Response>;
+
+  /**
+   * Signal of the call, aborted on timeout or cancellation
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Logger of the call
+   */
+  log: Logger;
+
+  /**
+   * Uppercase country code the call looks previews up for, or null if none was set
+   */
+  market: string | null;
+
+  /**
+   * Language of the responses, or null if none was set. `request` already
+   * sends it as the Accept-Language header.
+   */
+  locale: string | null;
+
+  /**
+   * Returns the HTML of the track's Spotify embed page. The page is fetched
+   * at most once per lookup, however many providers ask for it.
+   */
+  getEmbedPage(): Promise<string>;
+}
+
+/**
+ * A preview found by a provider, with where it comes from and how sure the
+ * provider is that it is the same recording.
+ */
+export interface PreviewMatch {
+  previewUrl: string;
+
+  /**
+   * Service hosting the preview, e.g. "spotify" or "deezer"
+   */
+  source: string;
+
+  /**
+   * How closely the preview matches the Spotify track, from 0 to 1
+   */
+  matchConfidence: number;
+}
+
+/**
+ * A track found on an alternate service, scored against the Spotify track.
+ */
+export interface PreviewCandidate {
+  previewUrl: string;
+  title: string;
+  artists: string[];
+  durationMs: number | null;
+  isrc: string | null;
+}
+
+/**
+ * A strategy for finding the preview URL of a track.
+ */
+export interface PreviewProvider {
+  /**
+   * Name reported in results, e.g. "embed"
+   */
+  readonly name: string;
+
+  /**
+   * Looks up the preview URL of a track. Errors thrown as SpotifyApiError
+   * with a retryable status are retried according to the retry policy.
+   *
+   * @param trackId - A validated track ID
+   * @param context - Request helpers for this call
+   * @returns The preview URL, or null if this provider has no preview for
+   * the track. A plain URL is reported as Spotify's own preview, with a
+   * `matchConfidence` of 1
+   */
+  getPreviewUrl(
+    trackId: string,
+    context: PreviewProviderContext
+  ): Promise<string | PreviewMatch | null>;
+}
+
+/**
+ * Options for WebApiProvider.
+ */
+export interface WebApiProviderOptions {
+  /**
+   * Client ID of the Spotify application
+   */
+  clientId: string;
+
+  /**
+   * Client secret of the Spotify application
+   */
+  clientSecret: string;
+
+  /**
+   * Base URL of the Spotify accounts service, which issues access tokens
+   * @default "https://accounts.spotify.com"
+   */
+  accountsBaseUrl?: string;
+
+  /**
+   * Base URL of the Spotify Web API
+   * @default "https://api.spotify.com"
+   */
+  apiBaseUrl?: string;
+}
+
+/**
+ * Options for the fallback providers searching alternate services.
+ */
+export interface FallbackProviderOptions {
+  /**
+   * Base URL of the service's API
+   */
+  baseUrl?: string;
+
+  /**
+   * Minimum score a candidate needs to be returned, from 0 to 1
+   * @default 0.75
+   */
+  minConfidence?: number;
+
+  /**
+   * Maximum number of search results scored
+   * @default 10
+   */
+  limit?: number;
+}
+
+/**
+ * Options for ITunesProvider.
+ */
+export interface ITunesProviderOptions extends FallbackProviderOptions {
+  /**
+   * Two-letter code of the iTunes Store country searched
+   * @default the call's market, or "US"
+   */
+  country?: string;
+}
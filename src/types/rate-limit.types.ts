@@ -0,0 +1,21 @@
+/**
+ * Client-side rate limit for requests, as a token bucket.
+ */
+export interface RateLimitOptions {
+  /**
+   * Number of requests allowed per interval, e.g. `0.5` for one request every
+   * two intervals
+   */
+  requests: number;
+
+  /**
+   * Length of the interval in milliseconds
+   * @default 1000
+   */
+  intervalMs?: number;
+
+  /**
+   * Called every time the number of requests waiting for the rate limit changes
+   */
+  onQueueChange?: (queueDepth: number) => void;
+}
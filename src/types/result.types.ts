@@ -0,0 +1,140 @@
+import {
+  EmbedParseError,
+  InvalidSpotifyIdError,
+  InvalidSpotifyUrlError,
+  NetworkError,
+  NoPreviewAvailableError,
+  RateLimitedError,
+  RegionRestrictedError,
+  SpotifyAbortError,
+  SpotifyApiError,
+  SpotifyPreviewError,
+  SpotifyTimeoutError,
+  TrackNotFoundError,
+} from "../errors";
+import { GetPreviewOptions } from "./app.types";
+
+/**
+ * Options for getPreviewResult function. Failures are always returned, never thrown.
+ */
+export type GetPreviewResultOptions = Omit<GetPreviewOptions, "throws">;
+
+/**
+ * Why a lookup failed, and the error type reported for each reason.
+ */
+export interface PreviewFailureErrors {
+  /**
+   * The track has no preview
+   */
+  "no-preview": NoPreviewAvailableError;
+
+  /**
+   * The input is not a valid track ID, URL, URI or short link
+   */
+  "invalid-input": InvalidSpotifyIdError | InvalidSpotifyUrlError;
+
+  /**
+   * Spotify has no track with this ID
+   */
+  "not-found": TrackNotFoundError;
+
+  /**
+   * The track is not available in this region or market
+   */
+  "region-restricted": RegionRestrictedError;
+
+  /**
+   * Spotify rejected the request because too many were made
+   */
+  "rate-limited": RateLimitedError;
+
+  /**
+   * The request failed without a response
+   */
+  "network-error": NetworkError;
+
+  /**
+   * Spotify answered with an unexpected response
+   */
+  "api-error": SpotifyApiError;
+
+  /**
+   * The embed page could not be parsed
+   */
+  "parse-error": EmbedParseError;
+
+  /**
+   * The call did not complete within `timeoutMs`
+   */
+  timeout: SpotifyTimeoutError;
+
+  /**
+   * The call was cancelled through `signal`
+   */
+  aborted: SpotifyAbortError;
+
+  /**
+   * Any other failure
+   */
+  unknown: SpotifyPreviewError;
+}
+
+/**
+ * Reason of a failed lookup.
+ */
+export type PreviewFailureReason = keyof PreviewFailureErrors;
+
+/**
+ * A successful lookup.
+ */
+export interface PreviewSuccess {
+  ok: true;
+  trackId: string;
+  previewUrl: string;
+
+  /**
+   * Name of the provider that answered
+   */
+  provider: string | null;
+
+  /**
+   * Service hosting the preview, e.g. "spotify" or "deezer"
+   */
+  source: string | null;
+
+  /**
+   * How closely the preview matches the track, from 0 to 1
+   */
+  matchConfidence: number | null;
+
+  /**
+   * The market the lookup was made for, or null if none was set
+   */
+  market: string | null;
+
+  /**
+   * When the lookup completed
+   */
+  fetchedAt: Date;
+}
+
+/**
+ * A failed lookup, narrowed by `reason` to the matching error type.
+ */
+export type PreviewFailure = {
+  [R in PreviewFailureReason]: {
+    ok: false;
+    reason: R;
+
+    /**
+     * The resolved track ID, or null if the input could not be parsed
+     */
+    trackId: string | null;
+    error: PreviewFailureErrors[R];
+  };
+}[PreviewFailureReason];
+
+/**
+ * Outcome of getPreviewResult: check `ok`, then `reason`, to handle every case.
+ */
+export type PreviewLookupResult = PreviewSuccess | PreviewFailure;
@@ -0,0 +1,41 @@
+/**
+ * Policy for retrying failed requests to Spotify.
+ */
+export interface RetryOptions {
+  /**
+   * Maximum number of attempts, including the first one
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds, doubled after every attempt
+   * @default 500
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound for the delay before a retry in milliseconds, applied to both
+   * the computed backoff and the delay requested by a Retry-After header
+   * @default 10000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Whether to randomize each delay between half and the full backoff delay
+   * @default true
+   */
+  jitter?: boolean;
+
+  /**
+   * HTTP status codes that are retried
+   * @default [429, 500, 502, 503, 504]
+   */
+  retryableStatusCodes?: number[];
+
+  /**
+   * Whether to retry requests that failed without a response (e.g. connection resets)
+   * @default true
+   */
+  retryNetworkErrors?: boolean;
+}
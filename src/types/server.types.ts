@@ -0,0 +1,72 @@
+import type { SpotifyPreviewClient } from "../client";
+import { GetPreviewOptions } from "./app.types";
+import { LoggerOptions } from "./logger.types";
+
+/**
+ * Options for createPreviewHandler function.
+ */
+export interface PreviewHandlerOptions {
+  /**
+   * Client used for lookups
+   * @default the client behind the top-level functions, configured with `configure`
+   */
+  client?: SpotifyPreviewClient;
+
+  /**
+   * Path prefix the routes are mounted under, e.g. "/api"
+   * @default ""
+   */
+  basePath?: string;
+
+  /**
+   * Whether `GET /preview/:idOrUri` redirects to the preview instead of returning JSON.
+   * Can be overridden per request with the `redirect` query parameter.
+   * @default false
+   */
+  redirect?: boolean;
+
+  /**
+   * Value of the Access-Control-Allow-Origin header, or false to disable CORS headers
+   * @default "*"
+   */
+  cors?: string | false;
+
+  /**
+   * How long clients and proxies may cache successful responses, in seconds
+   * @default 3600
+   */
+  cacheMaxAgeSeconds?: number;
+
+  /**
+   * Maximum number of tracks accepted by `POST /previews`
+   * @default 100
+   */
+  maxBatchSize?: number;
+
+  /**
+   * Options passed to every lookup, e.g. a timeout or retry policy
+   */
+  requestOptions?: Omit<GetPreviewOptions, "throws" | "signal">;
+
+  /**
+   * Debug/logging options for the handler
+   */
+  logger?: LoggerOptions;
+}
+
+/**
+ * Options for startPreviewServer function.
+ */
+export interface PreviewServerOptions extends PreviewHandlerOptions {
+  /**
+   * Port to listen on, or 0 for a random free port
+   * @default 3000
+   */
+  port?: number;
+
+  /**
+   * Host to listen on
+   * @default all interfaces
+   */
+  host?: string;
+}
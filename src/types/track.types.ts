@@ -0,0 +1,201 @@
+/**
+ * Types of Spotify entities the package can look up.
+ */
+export type SpotifyEntityType = "track" | CollectionType | EpisodeType;
+
+/**
+ * Types of Spotify entities a URL or URI can point to.
+ */
+export type SpotifyReferenceType = SpotifyEntityType;
+
+/**
+ * A parsed Spotify URL or URI.
+ */
+export interface SpotifyReference {
+  type: SpotifyReferenceType;
+  id: string;
+}
+
+/**
+ * Types of Spotify entities that contain a list of tracks.
+ */
+export type CollectionType = "album" | "playlist" | "artist";
+
+/**
+ * Types of spoken-word entities: podcast episodes and audiobook chapters.
+ */
+export type EpisodeType = "episode" | "chapter";
+
+/**
+ * An artist credited on a track.
+ */
+export interface TrackArtist {
+  /**
+   * Display name of the artist
+   */
+  name: string;
+
+  /**
+   * Spotify URI of the artist (e.g. "spotify:artist:...")
+   */
+  uri: string | null;
+}
+
+/**
+ * An image of the track's cover art.
+ */
+export interface TrackImage {
+  url: string;
+  width: number | null;
+  height: number | null;
+}
+
+/**
+ * Track metadata extracted from the Spotify embed page.
+ */
+export interface TrackInfo {
+  /**
+   * The Spotify track ID
+   */
+  trackId: string;
+
+  /**
+   * The track title
+   */
+  title: string;
+
+  /**
+   * Artists credited on the track, in display order
+   */
+  artists: TrackArtist[];
+
+  /**
+   * Name of the album the track appears on, if the embed page includes it
+   */
+  album: string | null;
+
+  /**
+   * Duration of the full track in milliseconds
+   */
+  durationMs: number | null;
+
+  /**
+   * Whether the track is marked as explicit
+   */
+  explicit: boolean;
+
+  /**
+   * Release date as an ISO 8601 string
+   */
+  releaseDate: string | null;
+
+  /**
+   * International Standard Recording Code, if the embed page includes it
+   */
+  isrc: string | null;
+
+  /**
+   * Available cover art images
+   */
+  coverArt: TrackImage[];
+
+  /**
+   * The 30-second preview URL, or null if none is available
+   */
+  previewUrl: string | null;
+}
+
+/**
+ * A track listed on an album, playlist or artist embed page.
+ */
+export interface CollectionTrack {
+  /**
+   * The Spotify track ID, or null if the listing has no track URI
+   */
+  trackId: string | null;
+
+  /**
+   * The track title
+   */
+  title: string;
+
+  /**
+   * Display string of the credited artists (e.g. "Artist A, Artist B")
+   */
+  artists: string;
+
+  /**
+   * Duration of the full track in milliseconds
+   */
+  durationMs: number | null;
+
+  /**
+   * Whether the track is marked as explicit
+   */
+  explicit: boolean;
+
+  /**
+   * The 30-second preview URL, or null if none is available
+   */
+  previewUrl: string | null;
+}
+
+/**
+ * The tracks of an album, playlist or artist along with their preview URLs.
+ */
+export interface CollectionPreviews {
+  /**
+   * The type of the collection
+   */
+  type: CollectionType;
+
+  /**
+   * The Spotify ID of the collection
+   */
+  id: string;
+
+  /**
+   * Name of the album, playlist or artist
+   */
+  name: string;
+
+  /**
+   * Tracks in the order they are listed on the embed page. For artists these are the top tracks.
+   */
+  tracks: CollectionTrack[];
+}
+
+/**
+ * A podcast episode or audiobook chapter along with its preview.
+ */
+export interface EpisodePreview {
+  /**
+   * Whether this is a podcast episode or an audiobook chapter
+   */
+  type: EpisodeType;
+
+  /**
+   * The Spotify ID of the episode or chapter
+   */
+  id: string;
+
+  /**
+   * The episode or chapter title
+   */
+  title: string;
+
+  /**
+   * Name of the show or audiobook, if the embed page includes it
+   */
+  showName: string | null;
+
+  /**
+   * Duration of the full episode or chapter in milliseconds
+   */
+  durationMs: number | null;
+
+  /**
+   * The preview or clip URL, or null if none is available
+   */
+  previewUrl: string | null;
+}
@@ -0,0 +1,54 @@
+import { GetPreviewOptions } from "./app.types";
+
+/**
+ * HTTP method used to verify a preview URL.
+ */
+export type VerifyMethod = "HEAD" | "GET";
+
+/**
+ * Options for verifyPreview function.
+ */
+export interface VerifyPreviewOptions
+  extends Omit<GetPreviewOptions, "throws" | "verify"> {
+  /**
+   * `"HEAD"`, or `"GET"` for a ranged request of the first byte. A HEAD
+   * request answered with 405 or 501 is retried as a ranged GET.
+   * @default "HEAD"
+   */
+  method?: VerifyMethod;
+}
+
+/**
+ * Outcome of a preview URL verification.
+ */
+export interface PreviewVerification {
+  /**
+   * The verified preview URL
+   */
+  url: string;
+
+  /**
+   * Whether the URL answered with a successful audio response
+   */
+  reachable: boolean;
+
+  /**
+   * HTTP status of the response, or null if the request failed
+   */
+  status: number | null;
+
+  /**
+   * Content-Type of the response, if any
+   */
+  contentType: string | null;
+
+  /**
+   * Size of the whole file in bytes, from Content-Length or Content-Range, if known
+   */
+  contentLength: number | null;
+
+  /**
+   * Time until the response headers were received, in milliseconds
+   */
+  latencyMs: number;
+}
@@ -0,0 +1,143 @@
+import { GetPreviewOptions } from "./app.types";
+
+/**
+ * The last known preview state of a watched track.
+ */
+export interface WatchedPreviewState {
+  /**
+   * The preview URL, or null if the track had no preview
+   */
+  previewUrl: string | null;
+
+  /**
+   * Unix timestamp (in milliseconds) of the check that found this state
+   */
+  checkedAt: number;
+}
+
+/**
+ * Storage backend for the last known state of watched tracks, keyed by the
+ * track as passed to watchPreviews. Methods may be synchronous or return
+ * promises, so a `Map` can be used as is.
+ */
+export interface PreviewStateStore {
+  /**
+   * Get the state stored for `trackId`, or undefined if it was never checked
+   */
+  get(
+    trackId: string
+  ): WatchedPreviewState | undefined | Promise<WatchedPreviewState | undefined>;
+
+  /**
+   * Store the state of `trackId`
+   */
+  set(trackId: string, state: WatchedPreviewState): unknown;
+}
+
+/**
+ * Options for watchPreviews function.
+ */
+export interface WatchPreviewsOptions
+  extends Omit<GetPreviewOptions, "throws" | "signal"> {
+  /**
+   * Time between the end of a check round and the start of the next one, in milliseconds
+   * @default 3600000 (1 hour)
+   */
+  intervalMs?: number;
+
+  /**
+   * Where the last known state of each track is kept
+   * @default a new in-memory `Map`
+   */
+  store?: PreviewStateStore;
+
+  /**
+   * Maximum number of tracks checked at the same time
+   * @default 5
+   */
+  concurrency?: number;
+}
+
+/**
+ * Payload of the `added`, `removed` and `changed` watch events.
+ */
+export interface PreviewChangeEvent {
+  /**
+   * The track as passed to watchPreviews
+   */
+  trackId: string;
+
+  /**
+   * The last known preview URL, null for `added`
+   */
+  oldUrl: string | null;
+
+  /**
+   * The preview URL found by this check, null for `removed`
+   */
+  newUrl: string | null;
+}
+
+/**
+ * Payload of the watch `error` event, emitted when a check fails. The last
+ * known state of the track is kept.
+ */
+export interface WatchErrorEvent {
+  trackId: string;
+  error: Error;
+}
+
+/**
+ * Payload of the watch `check` event, emitted after every check round.
+ */
+export interface WatchCheckEvent {
+  /**
+   * Number of tracks checked
+   */
+  checked: number;
+
+  /**
+   * Number of tracks whose preview was added, removed or changed
+   */
+  changed: number;
+
+  /**
+   * Number of tracks whose check failed
+   */
+  failed: number;
+}
+
+/**
+ * Watch events and their payloads.
+ */
+export interface WatchEventMap {
+  /**
+   * A track without a preview now has one
+   */
+  added: PreviewChangeEvent;
+
+  /**
+   * A track with a preview no longer has one
+   */
+  removed: PreviewChangeEvent;
+
+  /**
+   * The preview URL of a track changed
+   */
+  changed: PreviewChangeEvent;
+
+  error: WatchErrorEvent;
+  check: WatchCheckEvent;
+}
+
+/**
+ * Name of a watch event.
+ */
+export type WatchEventName = keyof WatchEventMap;
+
+/**
+ * Listener of a watch event.
+ */
+export type WatchEventListener<E extends WatchEventName> = (
+  event: WatchEventMap[E]
+) => void;
@@ -0,0 +1,124 @@
+import {
+  SpotifyAbortError,
+  SpotifyPreviewError,
+  SpotifyTimeoutError,
+} from "../errors";
+
+/**
+ * A signal combining a timeout and a caller-provided signal.
+ */
+export interface AbortScope {
+  /**
+   * The combined signal, or undefined if neither a timeout nor a signal was given
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Clears the timeout and detaches from the caller-provided signal
+   */
+  dispose(): void;
+}
+
+/**
+ * Creates a signal that aborts with a SpotifyTimeoutError after `timeoutMs`,
+ * or with a SpotifyAbortError when `parent` is aborted.
+ *
+ * @param timeoutMs - Timeout in milliseconds, if any
+ * @param parent - Caller-provided signal, if any
+ * @returns The abort scope; call `dispose` once the operation settles
+ */
+export function createAbortScope(
+  timeoutMs: number | undefined,
+  parent: AbortSignal | undefined
+): AbortScope {
+  if (!timeoutMs && !parent) {
+    return { dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  // Keep the parent's reason when it is one of ours, e.g. an enclosing timeout
+  const onAbort = () => controller.abort(getAbortError(parent!));
+
+  if (parent?.aborted) {
+    onAbort();
+  } else {
+    parent?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  const timer = timeoutMs
+    ? setTimeout(
+        () => controller.abort(new SpotifyTimeoutError(timeoutMs)),
+        timeoutMs
+      )
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+/**
+ * Returns the error describing why a signal was aborted.
+ */
+export function getAbortError(signal: AbortSignal): SpotifyPreviewError {
+  return signal.reason instanceof SpotifyPreviewError
+    ? signal.reason
+    : new SpotifyAbortError();
+}
+
+/**
+ * Throws the abort error of the signal if it has been aborted.
+ */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw getAbortError(signal);
+  }
+}
+
+/**
+ * Waits for `ms` milliseconds, rejecting early if the signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    throwIfAborted(signal);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(getAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Waits for a promise, rejecting early if the signal is aborted. The promise
+ * itself is not cancelled.
+ */
+export function raceSignal<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined
+): Promise<T> {
+  if (!signal) return promise;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(getAbortError(signal));
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+  });
+}
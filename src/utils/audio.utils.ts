@@ -0,0 +1,382 @@
+import { AudioParseError } from "../errors";
+import { PreviewAudioInfo, PreviewAudioInput } from "../types/audio.types";
+import { Logger, logger } from "../utils/logger.utils";
+
+// Bitrates in kbps by bitrate index, for MPEG-1 and MPEG-2/2.5, per layer
+const BITRATES: Record<"v1" | "v2", Record<1 | 2 | 3, number[]>> = {
+  v1: {
+    1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  },
+  v2: {
+    1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    3: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  },
+};
+
+// Sample rates in Hz by sample rate index, for MPEG-1, MPEG-2 and MPEG-2.5
+const SAMPLE_RATES: Record<MpegVersion, number[]> = {
+  1: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  2.5: [11025, 12000, 8000],
+};
+
+// Size of an MPEG frame header, and of an ID3v2 tag header or footer
+const FRAME_HEADER_LENGTH = 4;
+const ID3V2_HEADER_LENGTH = 10;
+
+type MpegVersion = 1 | 2 | 2.5;
+
+/**
+ * A decoded MPEG audio frame header.
+ */
+interface FrameHeader {
+  version: MpegVersion;
+  layer: 1 | 2 | 3;
+  bitrateKbps: number;
+  sampleRate: number;
+  channels: 1 | 2;
+  samplesPerFrame: number;
+  length: number;
+}
+
+/**
+ * Frame and byte counts announced by a Xing/Info or VBRI header.
+ */
+interface VbrHeader {
+  frames?: number;
+  bytes?: number;
+}
+
+/**
+ * Reads the MP3 headers of a preview and reports its duration, bitrate,
+ * sample rate and channel count. Every frame header is walked, so the result
+ * reflects the audio actually present; a Xing/Info or VBRI header is only used
+ * to detect missing frames.
+ *
+ * @param input - The audio, as a Buffer, a ReadableStream or an async iterable of chunks (e.g. a Node.js Readable)
+ * @param log - Optional logger to use (defaults to global logger)
+ * @returns The audio properties, with `truncated` and `corrupt` flags
+ * @throws {AudioParseError} If the input does not contain any MPEG audio frame
+ */
+async function inspectPreviewAudio(
+  input: PreviewAudioInput,
+  log: Logger = logger
+): Promise<PreviewAudioInfo> {
+  const bytes = await readAudioInput(input);
+  log.debug(`Inspecting ${bytes.length} bytes of audio`);
+
+  let truncated = false;
+  let corrupt = false;
+
+  const audioStart = getId3v2Length(bytes, 0);
+  if (audioStart > bytes.length) {
+    throw new AudioParseError("the file ends inside its ID3v2 tag");
+  }
+  if (audioStart > 0) {
+    log.debug(`Skipped ${audioStart} bytes of ID3v2 tag`);
+  }
+
+  const first = findFrame(bytes, audioStart);
+  if (first < 0) {
+    throw new AudioParseError("no MPEG audio frame found");
+  }
+  if (!isZeroPadding(bytes, audioStart, first)) {
+    log.warn(`Skipped ${first - audioStart} bytes of invalid data`);
+    corrupt = true;
+  }
+
+  const firstHeader = parseFrameHeader(bytes, first)!;
+  const vbr = readVbrHeader(bytes, first, firstHeader);
+  // The Xing/VBRI frame holds no audio
+  let offset = vbr ? first + firstHeader.length : first;
+  if (vbr) {
+    log.debug(`Found VBR header`, vbr);
+  }
+
+  let frames = 0;
+  let samples = 0;
+  let audioBytes = 0;
+
+  while (offset < bytes.length) {
+    if (isTrailingTag(bytes, offset) || isZeroPadding(bytes, offset)) {
+      break;
+    }
+
+    const header = parseFrameHeader(bytes, offset);
+    if (!header || header.sampleRate !== firstHeader.sampleRate) {
+      if (bytes.length - offset < FRAME_HEADER_LENGTH) {
+        truncated = true;
+        break;
+      }
+      // Skip to the next frame
+      const next = findFrame(bytes, offset + 1);
+      log.warn(`Invalid frame header at byte ${offset}`);
+      corrupt = true;
+      if (next < 0) break;
+      offset = next;
+      continue;
+    }
+
+    if (offset + header.length > bytes.length) {
+      log.warn(`Last frame at byte ${offset} is cut short`);
+      truncated = true;
+      break;
+    }
+
+    frames++;
+    samples += header.samplesPerFrame;
+    audioBytes += header.length;
+    offset += header.length;
+  }
+
+  if (vbr?.frames !== undefined && frames < vbr.frames) {
+    log.warn(`Found ${frames} of ${vbr.frames} frames announced by VBR header`);
+    truncated = true;
+  }
+
+  const durationSeconds = samples / firstHeader.sampleRate;
+  const info: PreviewAudioInfo = {
+    durationMs: Math.round(durationSeconds * 1000),
+    bitrateKbps: durationSeconds
+      ? Math.round((audioBytes * 8) / durationSeconds / 1000)
+      : 0,
+    sampleRate: firstHeader.sampleRate,
+    channels: firstHeader.channels,
+    frames,
+    truncated,
+    corrupt,
+  };
+
+  log.debug(`Audio info`, info);
+  return info;
+}
+
+/**
+ * Collects the input into a single byte array.
+ */
+async function readAudioInput(input: PreviewAudioInput): Promise<Uint8Array> {
+  if (input instanceof Uint8Array) {
+    return input;
+  }
+
+  const chunks: Uint8Array[] = [];
+  if ("getReader" in input) {
+    const reader = input.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  } else {
+    for await (const chunk of input) {
+      chunks.push(chunk);
+    }
+  }
+
+  const bytes = new Uint8Array(
+    chunks.reduce((length, chunk) => length + chunk.byteLength, 0)
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Returns the total length of an ID3v2 tag starting at `offset`, or 0 if there is none.
+ */
+function getId3v2Length(bytes: Uint8Array, offset: number): number {
+  if (
+    bytes.length < offset + ID3V2_HEADER_LENGTH ||
+    bytes[offset] !== 0x49 || // "I"
+    bytes[offset + 1] !== 0x44 || // "D"
+    bytes[offset + 2] !== 0x33 // "3"
+  ) {
+    return 0;
+  }
+
+  // The size is a 28-bit "syncsafe" integer: 7 bits per byte
+  const size =
+    ((bytes[offset + 6] & 0x7f) << 21) |
+    ((bytes[offset + 7] & 0x7f) << 14) |
+    ((bytes[offset + 8] & 0x7f) << 7) |
+    (bytes[offset + 9] & 0x7f);
+  const hasFooter = (bytes[offset + 5] & 0x10) !== 0;
+
+  return ID3V2_HEADER_LENGTH + size + (hasFooter ? ID3V2_HEADER_LENGTH : 0);
+}
+
+/**
+ * Decodes the MPEG audio frame header at `offset`, or returns null if there is no valid header.
+ */
+function parseFrameHeader(
+  bytes: Uint8Array,
+  offset: number
+): FrameHeader | null {
+  if (offset + FRAME_HEADER_LENGTH > bytes.length) return null;
+
+  const [b0, b1, b2, b3] = bytes.subarray(offset, offset + FRAME_HEADER_LENGTH);
+  // 11 set bits of the frame sync
+  if (b0 !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+
+  const versionBits = (b1 >> 3) & 0x03;
+  const layerBits = (b1 >> 1) & 0x03;
+  const bitrateIndex = b2 >> 4;
+  const sampleRateIndex = (b2 >> 2) & 0x03;
+  // Reserved values, and the "free" and "bad" bitrates
+  if (versionBits === 1 || layerBits === 0) return null;
+  if (bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const version: MpegVersion =
+    versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+  const layer = (4 - layerBits) as 1 | 2 | 3;
+  const bitrateKbps =
+    BITRATES[version === 1 ? "v1" : "v2"][layer][bitrateIndex];
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+  const padding = (b2 >> 1) & 0x01;
+  const channels = b3 >> 6 === 3 ? 1 : 2;
+
+  const samplesPerFrame =
+    layer === 1 ? 384 : layer === 3 && version !== 1 ? 576 : 1152;
+  const length =
+    layer === 1
+      ? (Math.floor((12 * bitrateKbps * 1000) / sampleRate) + padding) * 4
+      : Math.floor(((samplesPerFrame / 8) * bitrateKbps * 1000) / sampleRate) +
+        padding;
+
+  return {
+    version,
+    layer,
+    bitrateKbps,
+    sampleRate,
+    channels,
+    samplesPerFrame,
+    length,
+  };
+}
+
+/**
+ * Finds the first frame at or after `offset`. To avoid false syncs inside
+ * other data, a frame only counts if it is followed by another frame or ends the file.
+ *
+ * @returns The offset of the frame, or -1 if there is none
+ */
+function findFrame(bytes: Uint8Array, offset: number): number {
+  for (let i = offset; i + FRAME_HEADER_LENGTH <= bytes.length; i++) {
+    const header = parseFrameHeader(bytes, i);
+    if (!header) continue;
+
+    const next = i + header.length;
+    if (
+      next >= bytes.length ||
+      isTrailingTag(bytes, next) ||
+      parseFrameHeader(bytes, next)?.sampleRate === header.sampleRate
+    ) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Reads the Xing/Info or VBRI header stored in the first frame, if any.
+ */
+function readVbrHeader(
+  bytes: Uint8Array,
+  offset: number,
+  header: FrameHeader
+): VbrHeader | null {
+  if (header.layer !== 3) return null;
+
+  // The Xing/Info header follows the side information, whose size depends on the version and channels
+  const sideInfoLength =
+    header.version === 1
+      ? header.channels === 1
+        ? 17
+        : 32
+      : header.channels === 1
+      ? 9
+      : 17;
+  const xing = offset + FRAME_HEADER_LENGTH + sideInfoLength;
+  const xingId = readAscii(bytes, xing, 4);
+  if (xingId === "Xing" || xingId === "Info") {
+    const flags = readUint32(bytes, xing + 4);
+    const vbr: VbrHeader = {};
+    let field = xing + 8;
+    if (flags & 0x01) {
+      vbr.frames = readUint32(bytes, field);
+      field += 4;
+    }
+    if (flags & 0x02) {
+      vbr.bytes = readUint32(bytes, field);
+    }
+    return vbr;
+  }
+
+  // The VBRI header always starts 32 bytes after the frame header
+  const vbri = offset + FRAME_HEADER_LENGTH + 32;
+  if (readAscii(bytes, vbri, 4) === "VBRI") {
+    return {
+      bytes: readUint32(bytes, vbri + 10),
+      frames: readUint32(bytes, vbri + 14),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Whether an ID3v1, APEv2 or appended ID3v2 tag starts at `offset`.
+ */
+function isTrailingTag(bytes: Uint8Array, offset: number): boolean {
+  return (
+    readAscii(bytes, offset, 3) === "TAG" ||
+    readAscii(bytes, offset, 3) === "ID3" ||
+    readAscii(bytes, offset, 8) === "APETAGEX"
+  );
+}
+
+/**
+ * Whether every byte from `start` to `end` is zero.
+ */
+function isZeroPadding(
+  bytes: Uint8Array,
+  start: number,
+  end = bytes.length
+): boolean {
+  for (let i = start; i < end; i++) {
+    if (bytes[i] !== 0) return false;
+  }
+  return true;
+}
+
+/**
+ * Reads `length` bytes at `offset` as ASCII, or an empty string past the end.
+ */
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  if (offset + length > bytes.length) return "";
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+/**
+ * Reads a big-endian unsigned 32-bit integer, or 0 past the end.
+ */
+function readUint32(bytes: Uint8Array, offset: number): number {
+  if (offset + 4 > bytes.length) return 0;
+  return (
+    ((bytes[offset] << 24) >>> 0) +
+    (bytes[offset + 1] << 16) +
+    (bytes[offset + 2] << 8) +
+    bytes[offset + 3]
+  );
+}
+
+export { inspectPreviewAudio };
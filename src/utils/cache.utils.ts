@@ -0,0 +1,281 @@
+import { readFile, writeFile } from "node:fs/promises";
+import {
+  PreviewCacheEntry,
+  PreviewCacheOptions,
+  PreviewCacheStore,
+} from "../types/cache.types";
+import { raceSignal, throwIfAborted } from "./abort.utils";
+import { Logger } from "./logger.utils";
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_NO_PREVIEW_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * In-memory preview cache store that evicts the least recently used entry
+ * once `maxEntries` is reached.
+ */
+export class MemoryCacheStore implements PreviewCacheStore {
+  private entries = new Map<string, PreviewCacheEntry>();
+  private maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  get(key: string): PreviewCacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark the entry as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: PreviewCacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Remove all entries.
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of entries currently stored.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Preview cache store that persists entries to a JSON file on disk.
+ * The file is read on first access and rewritten after every change.
+ */
+export class FileCacheStore implements PreviewCacheStore {
+  private filePath: string;
+  private entries?: Promise<Map<string, PreviewCacheEntry>>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(key: string): Promise<PreviewCacheEntry | undefined> {
+    return (await this.load()).get(key);
+  }
+
+  async set(key: string, entry: PreviewCacheEntry): Promise<void> {
+    (await this.load()).set(key, entry);
+    return this.persist();
+  }
+
+  async delete(key: string): Promise<void> {
+    if ((await this.load()).delete(key)) {
+      return this.persist();
+    }
+  }
+
+  /**
+   * Remove all entries.
+   */
+  async clear(): Promise<void> {
+    (await this.load()).clear();
+    return this.persist();
+  }
+
+  private load(): Promise<Map<string, PreviewCacheEntry>> {
+    if (!this.entries) {
+      this.entries = (async () => {
+        try {
+          const json = JSON.parse(await readFile(this.filePath, "utf8"));
+          return new Map<string, PreviewCacheEntry>(Object.entries(json ?? {}));
+        } catch (error) {
+          // A missing or corrupt file simply means an empty cache
+          if (error.code === "ENOENT" || error instanceof SyntaxError) {
+            return new Map<string, PreviewCacheEntry>();
+          }
+          throw error;
+        }
+      })().catch((error) => {
+        // Read the file again on the next access instead of failing forever
+        this.entries = undefined;
+        throw error;
+      });
+    }
+    return this.entries;
+  }
+
+  private persist(): Promise<void> {
+    // Serialize writes so concurrent changes never interleave on disk
+    const write = this.writing.then(async () => {
+      const now = Date.now();
+      const entries = await this.load();
+
+      for (const [key, entry] of entries) {
+        if (entry.expiresAt <= now) entries.delete(key);
+      }
+
+      await writeFile(
+        this.filePath,
+        JSON.stringify(Object.fromEntries(entries)),
+        "utf8"
+      );
+    });
+    // A failed write is reported to its caller only, not to later writes
+    this.writing = write.catch(() => {});
+    return write;
+  }
+}
+
+/**
+ * A preview lookup result as kept in the cache.
+ */
+export type CachedPreview = Required<Omit<PreviewCacheEntry, "expiresAt">>;
+
+/**
+ * A lookup in progress, shared by every call waiting for it.
+ */
+interface InFlightLookup {
+  promise: Promise<CachedPreview>;
+  controller: AbortController;
+  waiters: number;
+  settled: boolean;
+}
+
+// Lookups currently in progress, per store and key
+const inFlightLookups = new WeakMap<
+  PreviewCacheStore,
+  Map<string, InFlightLookup>
+>();
+
+/**
+ * Performs a preview lookup through the cache. Fresh entries are returned
+ * without calling `lookup`, and concurrent calls for the same key share a
+ * single lookup.
+ *
+ * The shared lookup does not run under any caller's signal: each caller
+ * stops waiting when its own signal aborts, and the lookup is cancelled once
+ * no caller is waiting for it anymore. Errors from the store are logged
+ * and do not fail the lookup: a failed read counts as a cache miss.
+ *
+ * @param key - The cache key (usually the track ID)
+ * @param store - The store to read from and write to
+ * @param cache - Cache options (TTLs)
+ * @param lookup - Function that performs the uncached lookup, cancelled through the signal it is given
+ * @param log - Logger to use
+ * @param onHit - Called when a fresh entry is found in the store
+ * @param signal - Optional signal to stop waiting for the result
+ * @returns The cached or freshly looked up preview, with the provider that found it
+ * @throws {SpotifyTimeoutError} If the signal is aborted by a timeout
+ * @throws {SpotifyAbortError} If the signal is aborted
+ */
+export async function withPreviewCache(
+  key: string,
+  store: PreviewCacheStore,
+  cache: PreviewCacheOptions,
+  lookup: (signal: AbortSignal) => Promise<CachedPreview>,
+  log: Logger,
+  onHit?: (previewUrl: string | null) => void,
+  signal?: AbortSignal
+): Promise<CachedPreview> {
+  throwIfAborted(signal);
+
+  let inFlight = inFlightLookups.get(store);
+  if (!inFlight) {
+    inFlight = new Map();
+    inFlightLookups.set(store, inFlight);
+  }
+
+  let shared = inFlight.get(key);
+  if (shared) {
+    log.debug(`Joining in-flight lookup for key: ${key}`);
+  } else {
+    const lookupEntry: InFlightLookup = {
+      promise: null,
+      controller: new AbortController(),
+      waiters: 0,
+      settled: false,
+    };
+    lookupEntry.promise = (async () => {
+      let entry: PreviewCacheEntry | undefined;
+      try {
+        entry = await store.get(key);
+      } catch (error) {
+        // A failing store must not fail the lookup: treat it as a miss
+        log.warn(`Failed to read cache entry for key: ${key}`, error);
+      }
+
+      if (entry && entry.expiresAt > Date.now()) {
+        log.debug(`Cache hit for key: ${key}`);
+        onHit?.(entry.previewUrl);
+        return {
+          previewUrl: entry.previewUrl,
+          provider: entry.provider ?? null,
+          source: entry.source ?? null,
+          matchConfidence: entry.matchConfidence ?? null,
+        };
+      }
+
+      if (entry) {
+        log.debug(`Cache entry expired for key: ${key}`);
+        try {
+          await store.delete(key);
+        } catch (error) {
+          log.warn(`Failed to delete cache entry for key: ${key}`, error);
+        }
+      } else {
+        log.debug(`Cache miss for key: ${key}`);
+      }
+
+      const result = await lookup(lookupEntry.controller.signal);
+      const ttlMs = result.previewUrl
+        ? cache.ttlMs ?? DEFAULT_TTL_MS
+        : cache.noPreviewTtlMs ?? DEFAULT_NO_PREVIEW_TTL_MS;
+
+      if (ttlMs > 0) {
+        try {
+          await store.set(key, { ...result, expiresAt: Date.now() + ttlMs });
+          log.debug(`Cached result for key: ${key} (ttl: ${ttlMs}ms)`);
+        } catch (error) {
+          log.warn(`Failed to cache result for key: ${key}`, error);
+        }
+      }
+
+      return result;
+    })().finally(() => {
+      lookupEntry.settled = true;
+    });
+
+    shared = lookupEntry;
+    inFlight.set(key, shared);
+  }
+
+  shared.waiters++;
+  try {
+    return await raceSignal(shared.promise, signal);
+  } finally {
+    // The last caller to stop waiting cancels the shared lookup
+    if (--shared.waiters === 0) {
+      if (inFlight.get(key) === shared) inFlight.delete(key);
+      if (!shared.settled) {
+        log.debug(`Cancelling lookup no caller is waiting for: ${key}`);
+        shared.controller.abort();
+      }
+    }
+  }
+}
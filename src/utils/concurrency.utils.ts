@@ -0,0 +1,31 @@
+/**
+ * Maps over a list of items with an async function, running at most
+ * `concurrency` calls at a time. Results are returned in input order.
+ *
+ * @param items - The items to map over
+ * @param concurrency - The maximum number of in-flight calls
+ * @param fn - Async function applied to each item
+ * @returns The mapped results, in the same order as `items`
+ */
+async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, concurrency), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
+
+export { mapWithConcurrency };
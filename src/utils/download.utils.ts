@@ -0,0 +1,215 @@
+import { PreviewDownloadError } from "../errors";
+import { DownloadProgress } from "../types/download.types";
+import { getAbortError } from "./abort.utils";
+import { Logger } from "./logger.utils";
+
+// Number of leading bytes needed to recognize an MP3 file
+const MP3_HEADER_LENGTH = 3;
+
+/**
+ * Options for reading a preview audio response.
+ */
+export interface AudioStreamOptions {
+  /**
+   * The URL being downloaded, reported in errors
+   */
+  url: string;
+
+  /**
+   * HTTP status of the response, reported in errors
+   */
+  status: number;
+
+  /**
+   * Maximum number of bytes to accept
+   */
+  maxBytes: number;
+
+  /**
+   * Signal the request was made with
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called every time a chunk of audio is received
+   */
+  onProgress?: (progress: DownloadProgress) => void;
+
+  /**
+   * Called once the stream has ended, failed or been cancelled
+   */
+  onSettled?: () => void;
+}
+
+/**
+ * Whether the bytes start with an ID3v2 tag or an MPEG audio frame sync.
+ *
+ * @param bytes - The first bytes of the file
+ * @returns true if the bytes look like the start of an MP3 file
+ */
+export function isMp3Header(bytes: Uint8Array): boolean {
+  // "ID3"
+  if (bytes[0] === 0x49 && bytes[1] === 0x44 && bytes[2] === 0x33) {
+    return true;
+  }
+  // 11 set bits of the frame sync
+  return bytes.length >= 2 && bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0;
+}
+
+/**
+ * Whether a Content-Type header allows the body to be audio. A missing
+ * header is accepted.
+ *
+ * @param contentType - The Content-Type header, or null if there is none
+ * @returns true unless the content type is known not to be audio
+ */
+export function isAudioContentType(contentType: string | null): boolean {
+  return (
+    !contentType || /^(audio\/|application\/octet-stream)/i.test(contentType)
+  );
+}
+
+/**
+ * Checks the status and headers of a preview audio response.
+ *
+ * @param response - The response to check
+ * @param url - The URL that was requested
+ * @param maxBytes - Maximum number of bytes to accept
+ * @returns The size announced by the Content-Length header, or null if unknown
+ * @throws {PreviewDownloadError} If the response is not a successful audio response within the size limit
+ */
+export function checkAudioResponse(
+  response: Response,
+  url: string,
+  maxBytes: number
+): number | null {
+  if (!response.ok) {
+    throw new PreviewDownloadError("Unexpected response", url, response.status);
+  }
+
+  const contentType = response.headers.get("content-type");
+  if (!isAudioContentType(contentType)) {
+    throw new PreviewDownloadError(
+      `Unexpected content type "${contentType}"`,
+      url,
+      response.status
+    );
+  }
+
+  const contentLength = response.headers.get("content-length");
+  const totalBytes = contentLength !== null ? Number(contentLength) : NaN;
+  if (totalBytes > maxBytes) {
+    throw new PreviewDownloadError(
+      `Preview size of ${totalBytes} bytes exceeds the limit of ${maxBytes} bytes`,
+      url,
+      response.status
+    );
+  }
+
+  return Number.isFinite(totalBytes) ? totalBytes : null;
+}
+
+/**
+ * Wraps a response body in a stream that checks the MP3 header, enforces the
+ * size limit and reports progress. The stream errors with a PreviewDownloadError
+ * if any of these checks fail.
+ *
+ * @param body - The response body
+ * @param totalBytes - The announced size, or null if unknown
+ * @param options - Checks and callbacks
+ * @param log - Logger to use
+ * @returns The checked audio stream
+ */
+export function createAudioStream(
+  body: ReadableStream<Uint8Array>,
+  totalBytes: number | null,
+  options: AudioStreamOptions,
+  log: Logger
+): ReadableStream<Uint8Array> {
+  const { url, status, maxBytes, signal, onProgress, onSettled } = options;
+  const reader = body.getReader();
+  let bytes = 0;
+  // Leading bytes held back until the MP3 header has been checked
+  let head: Uint8Array | null = new Uint8Array(0);
+
+  const fail = async (error: Error): Promise<never> => {
+    await reader.cancel().catch(() => {});
+    onSettled?.();
+    throw error;
+  };
+
+  const checkHead = (chunk: Uint8Array): Promise<never> | void => {
+    if (!isMp3Header(chunk)) {
+      log.error(`Preview at ${url} is not MP3 audio`);
+      return fail(
+        new PreviewDownloadError("Response is not MP3 audio", url, status)
+      );
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      // Keep reading until there is something to hand out, as the header may span chunks
+      for (;;) {
+        let result: ReadableStreamReadResult<Uint8Array>;
+        try {
+          result = await reader.read();
+        } catch (error) {
+          onSettled?.();
+          if (signal?.aborted) throw getAbortError(signal);
+          throw new PreviewDownloadError(
+            `Connection failed: ${error.message}`,
+            url
+          );
+        }
+
+        if (result.done) {
+          if (head) {
+            await checkHead(head);
+            controller.enqueue(head);
+          }
+          log.debug(`Downloaded ${bytes} bytes from ${url}`);
+          onSettled?.();
+          controller.close();
+          return;
+        }
+
+        bytes += result.value.byteLength;
+        if (bytes > maxBytes) {
+          await fail(
+            new PreviewDownloadError(
+              `Preview exceeds the limit of ${maxBytes} bytes`,
+              url,
+              status
+            )
+          );
+        }
+        onProgress?.({ bytes, totalBytes });
+
+        if (!head) {
+          controller.enqueue(result.value);
+          return;
+        }
+
+        const pending = new Uint8Array(
+          head.byteLength + result.value.byteLength
+        );
+        pending.set(head);
+        pending.set(result.value, head.byteLength);
+        if (pending.byteLength < MP3_HEADER_LENGTH) {
+          head = pending;
+          continue;
+        }
+
+        await checkHead(pending);
+        head = null;
+        controller.enqueue(pending);
+        return;
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+      onSettled?.();
+    },
+  });
+}
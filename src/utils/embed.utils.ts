@@ -0,0 +1,206 @@
+import { EmbedParseError } from "../errors";
+import {
+  CollectionPreviews,
+  CollectionTrack,
+  CollectionType,
+  EpisodePreview,
+  EpisodeType,
+  TrackImage,
+  TrackInfo,
+} from "../types/track.types";
+import { Logger, logger } from "../utils/logger.utils";
+
+const NEXT_DATA_REGEX =
+  /<script[^>]*id=["']__NEXT_DATA__["'][^>]*>([\s\S]*?)<\/script>/;
+
+// Legacy extraction, only used when the page state cannot be parsed
+const AUDIO_PREVIEW_REGEX = /"audioPreview":\s*\{\s*"url":\s*"([^"]+)"\s*\}/;
+
+/**
+ * Extracts the entity (track, album, ...) from the page state embedded in a Spotify embed page.
+ *
+ * @param html - The HTML of the embed page
+ * @param log - Optional logger to use (defaults to global logger)
+ * @returns The raw entity object
+ * @throws {EmbedParseError} If the page state cannot be found or parsed
+ */
+function extractEmbedEntity(html: string, log: Logger = logger): any {
+  log.debug(`Extracting page state from embed HTML`);
+
+  const match = html.match(NEXT_DATA_REGEX);
+  if (!match) {
+    throw new EmbedParseError("next-data", "no __NEXT_DATA__ script found");
+  }
+
+  let state: any;
+  try {
+    state = JSON.parse(match[1]);
+  } catch (error) {
+    throw new EmbedParseError(
+      "next-data",
+      `invalid __NEXT_DATA__ JSON (${error.message})`
+    );
+  }
+
+  const entity = state?.props?.pageProps?.state?.data?.entity;
+  if (!entity || typeof entity !== "object") {
+    throw new EmbedParseError("next-data", "page state contains no entity");
+  }
+
+  log.debug(`Found embed entity of type: ${entity.type}`);
+  return entity;
+}
+
+/**
+ * Extracts the audio preview URL from a Spotify embed page.
+ *
+ * @description Parses the embedded page state first and only falls back to
+ * matching the raw `audioPreview` JSON when the page state cannot be parsed
+ * @param html - The HTML of the embed page
+ * @param log - Optional logger to use (defaults to global logger)
+ * @returns The preview URL, or null if the page has no preview
+ * @throws {EmbedParseError} If no strategy could make sense of the page
+ */
+function extractPreviewUrl(html: string, log: Logger = logger): string | null {
+  try {
+    const entity = extractEmbedEntity(html, log);
+    return normalizePreviewUrl(entity.audioPreview?.url);
+  } catch (error) {
+    if (!(error instanceof EmbedParseError)) {
+      throw error;
+    }
+
+    log.warn(
+      `Structured parsing failed (${error.reason}), falling back to "audio-preview-regex"`
+    );
+    const match = html.match(AUDIO_PREVIEW_REGEX);
+    if (!match) {
+      log.error(`No strategy could parse the embed page`);
+      throw new EmbedParseError(
+        "audio-preview-regex",
+        `no audioPreview found after "${error.strategy}" failed: ${error.reason}`
+      );
+    }
+
+    return normalizePreviewUrl(match[1]);
+  }
+}
+
+/**
+ * Returns the preview URL if it is an https URL, null otherwise.
+ */
+function normalizePreviewUrl(url: unknown): string | null {
+  return typeof url === "string" && url.includes("https://") ? url : null;
+}
+
+/**
+ * Maps a raw embed track entity to a TrackInfo object.
+ *
+ * @param entity - The raw track entity from the embed page state
+ * @param trackId - The track ID the entity was fetched for
+ * @returns The track metadata
+ */
+function toTrackInfo(entity: any, trackId: string): TrackInfo {
+  const images: any[] =
+    entity.visualIdentity?.image ?? entity.coverArt?.sources ?? [];
+
+  return {
+    trackId,
+    title: entity.title ?? entity.name ?? "",
+    artists: (entity.artists ?? []).map((artist: any) => ({
+      name: artist.name,
+      uri: artist.uri ?? null,
+    })),
+    album: entity.album?.name ?? entity.albumOfTrack?.name ?? null,
+    durationMs: typeof entity.duration === "number" ? entity.duration : null,
+    explicit: entity.isExplicit === true,
+    releaseDate: entity.releaseDate?.isoString ?? null,
+    isrc: entity.isrc ?? entity.externalIds?.isrc ?? null,
+    coverArt: images
+      .filter((image) => typeof image?.url === "string")
+      .map(
+        (image): TrackImage => ({
+          url: image.url,
+          width: image.maxWidth ?? image.width ?? null,
+          height: image.maxHeight ?? image.height ?? null,
+        })
+      ),
+    previewUrl: normalizePreviewUrl(entity.audioPreview?.url),
+  };
+}
+
+/**
+ * Maps a raw embed album, playlist or artist entity to a CollectionPreviews object.
+ *
+ * @param entity - The raw entity from the embed page state
+ * @param type - The type of the collection
+ * @param id - The collection ID the entity was fetched for
+ * @returns The collection and its tracks
+ * @throws {EmbedParseError} If the entity has no track list
+ */
+function toCollectionPreviews(
+  entity: any,
+  type: CollectionType,
+  id: string
+): CollectionPreviews {
+  if (!Array.isArray(entity.trackList)) {
+    throw new EmbedParseError("next-data", "entity contains no track list");
+  }
+
+  return {
+    type,
+    id,
+    name: entity.name ?? entity.title ?? "",
+    tracks: entity.trackList.map(
+      (item: any): CollectionTrack => ({
+        trackId: parseTrackUri(item.uri),
+        title: item.title ?? "",
+        artists: item.subtitle ?? "",
+        durationMs: typeof item.duration === "number" ? item.duration : null,
+        explicit: item.isExplicit === true,
+        previewUrl: normalizePreviewUrl(item.audioPreview?.url),
+      })
+    ),
+  };
+}
+
+/**
+ * Maps a raw embed episode or chapter entity to an EpisodePreview object.
+ *
+ * @param entity - The raw entity from the embed page state
+ * @param type - Whether the entity is a podcast episode or an audiobook chapter
+ * @param id - The episode or chapter ID the entity was fetched for
+ * @returns The episode or chapter and its preview
+ */
+function toEpisodePreview(
+  entity: any,
+  type: EpisodeType,
+  id: string
+): EpisodePreview {
+  return {
+    type,
+    id,
+    title: entity.title ?? entity.name ?? "",
+    showName:
+      entity.subtitle ?? entity.show?.name ?? entity.audiobook?.name ?? null,
+    durationMs: typeof entity.duration === "number" ? entity.duration : null,
+    previewUrl: normalizePreviewUrl(entity.audioPreview?.url),
+  };
+}
+
+/**
+ * Returns the track ID of a "spotify:track:{id}" URI, null for anything else.
+ */
+function parseTrackUri(uri: unknown): string | null {
+  if (typeof uri !== "string") return null;
+  const match = uri.match(/^spotify:track:([a-zA-Z0-9]+)$/);
+  return match ? match[1] : null;
+}
+
+export {
+  extractEmbedEntity,
+  extractPreviewUrl,
+  toCollectionPreviews,
+  toEpisodePreview,
+  toTrackInfo,
+};
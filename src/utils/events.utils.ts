@@ -0,0 +1,121 @@
+import {
+  PreviewEventBase,
+  PreviewEventListener,
+  PreviewEventListeners,
+  PreviewEventMap,
+  PreviewEventName,
+} from "../types/events.types";
+import { Logger } from "./logger.utils";
+
+/**
+ * Minimal typed event emitter for lifecycle events. Listeners run
+ * synchronously; an exception thrown by a listener is logged and never
+ * affects the operation that emitted the event.
+ */
+export class PreviewEventEmitter {
+  private listeners = new Map<PreviewEventName, Set<(event: any) => void>>();
+  private getConfigListeners: () => PreviewEventListeners | undefined;
+
+  /**
+   * @param getConfigListeners - Returns the listeners set through the configuration, read on every emit
+   */
+  constructor(
+    getConfigListeners: () => PreviewEventListeners | undefined = () =>
+      undefined
+  ) {
+    this.getConfigListeners = getConfigListeners;
+  }
+
+  /**
+   * Adds a listener for an event.
+   *
+   * @param event - Event name
+   * @param listener - Function called with the event payload
+   */
+  on<E extends PreviewEventName>(
+    event: E,
+    listener: PreviewEventListener<E>
+  ): void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+  }
+
+  /**
+   * Adds a listener that is removed after its first call.
+   *
+   * @param event - Event name
+   * @param listener - Function called with the event payload
+   */
+  once<E extends PreviewEventName>(
+    event: E,
+    listener: PreviewEventListener<E>
+  ): void {
+    const wrapper: PreviewEventListener<E> = (payload) => {
+      this.off(event, wrapper);
+      listener(payload);
+    };
+    this.on(event, wrapper);
+  }
+
+  /**
+   * Removes a listener added with `on`. Listeners added with `once` cannot
+   * be removed before their call.
+   *
+   * @param event - Event name
+   * @param listener - The listener to remove
+   */
+  off<E extends PreviewEventName>(
+    event: E,
+    listener: PreviewEventListener<E>
+  ): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Calls the configured listener and every added listener of an event.
+   *
+   * @param event - Event name
+   * @param payload - Event payload
+   * @param log - Logger used to report listener failures
+   */
+  emit<E extends PreviewEventName>(
+    event: E,
+    payload: PreviewEventMap[E],
+    log: Logger
+  ): void {
+    const configListener = this.getConfigListeners()?.[event] as
+      | PreviewEventListener<E>
+      | undefined;
+    const listeners = [
+      ...(configListener ? [configListener] : []),
+      ...(this.listeners.get(event) ?? []),
+    ];
+
+    for (const listener of listeners) {
+      try {
+        listener(payload);
+      } catch (error) {
+        log.warn(`Listener for "${event}" event failed`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Returns the correlation fields of an event from the logger of the call
+ * that emits it.
+ *
+ * @param log - Logger of the call
+ * @returns The request ID and track ID of the call
+ */
+export function getEventContext(log: Logger): PreviewEventBase {
+  const { requestId, trackId } = log.getFields();
+  return {
+    requestId: typeof requestId === "string" ? requestId : "",
+    trackId: typeof trackId === "string" ? trackId : null,
+  };
+}
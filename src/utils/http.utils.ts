@@ -0,0 +1,174 @@
+import {
+  RateLimitedError,
+  RegionRestrictedError,
+  SpotifyApiError,
+} from "../errors";
+import { TransportOptions } from "../types/app.types";
+import { parseRetryAfter } from "./retry.utils";
+import { Logger, logger } from "./logger.utils";
+import { RateLimiter } from "./rate-limit.utils";
+import { getEventContext, PreviewEventEmitter } from "./events.utils";
+
+const DEFAULT_BASE_URL = "https://open.spotify.com";
+
+/**
+ * Resolved transport used for every request the package makes.
+ */
+export interface HttpTransport {
+  fetch: typeof fetch;
+  headers: Record<string, string>;
+  baseUrl: string;
+
+  /**
+   * Rate limiter every request waits for, if any
+   */
+  rateLimiter?: RateLimiter;
+
+  /**
+   * Emitter notified of every request and response, if any
+   */
+  events?: PreviewEventEmitter;
+}
+
+/**
+ * Resolves the transport from layers of transport options.
+ * Later layers take precedence; headers are merged.
+ *
+ * @param layers - Transport options, from lowest to highest precedence
+ * @returns The resolved transport
+ */
+export function createTransport(
+  ...layers: (TransportOptions | undefined)[]
+): HttpTransport {
+  // Resolve the global fetch lazily so it can be replaced at runtime (e.g. in tests)
+  const transport: HttpTransport = {
+    fetch: (...args: Parameters<typeof fetch>) => globalThis.fetch(...args),
+    headers: {},
+    baseUrl: DEFAULT_BASE_URL,
+  };
+
+  for (const layer of layers) {
+    if (!layer) continue;
+    if (layer.fetch) transport.fetch = layer.fetch;
+    if (layer.baseUrl) transport.baseUrl = layer.baseUrl.replace(/\/+$/, "");
+    if (layer.headers) {
+      transport.headers = mergeHeaders(transport.headers, layer.headers);
+    }
+  }
+
+  return transport;
+}
+
+/**
+ * Merges headers into a plain object. Header names are compared ignoring
+ * case; the names of plain object and array headers keep their case, while
+ * those of a `Headers` instance are lowercase.
+ *
+ * @param base - Headers to start from
+ * @param headers - Headers taking precedence, in any form `fetch` accepts
+ * @returns The merged headers
+ */
+export function mergeHeaders(
+  base: Record<string, string>,
+  headers?: HeadersInit
+): Record<string, string> {
+  const merged = { ...base };
+  const set = (name: string, value: string) => {
+    for (const key of Object.keys(merged)) {
+      if (key.toLowerCase() === name.toLowerCase()) delete merged[key];
+    }
+    merged[name] = value;
+  };
+
+  if (headers instanceof Headers) {
+    headers.forEach((value, name) => set(name, value));
+  } else if (Array.isArray(headers)) {
+    for (const [name, value] of headers) set(name, value);
+  } else if (headers) {
+    for (const [name, value] of Object.entries(headers)) set(name, value);
+  }
+  return merged;
+}
+
+/**
+ * Sends a request through the transport, adding the configured headers and
+ * waiting for the rate limiter first. `request` and `response` events are
+ * emitted around the request itself.
+ *
+ * @param transport - The transport to use
+ * @param url - Absolute URL, or a path relative to the transport's base URL
+ * @param init - Additional request options
+ * @param log - Optional logger to use (defaults to global logger)
+ * @returns The response
+ */
+export async function httpRequest(
+  transport: HttpTransport,
+  url: string,
+  init?: RequestInit,
+  log: Logger = logger
+): Promise<Response> {
+  const absoluteUrl = /^https?:\/\//.test(url)
+    ? url
+    : `${transport.baseUrl}${url}`;
+  const headers = mergeHeaders(transport.headers, init?.headers);
+
+  await transport.rateLimiter?.acquire(init?.signal ?? undefined, log);
+
+  // Only pass request options when there is something to pass
+  const requestInit = Object.keys(headers).length ? { ...init, headers } : init;
+  const { events } = transport;
+  if (!events) {
+    return requestInit
+      ? transport.fetch(absoluteUrl, requestInit)
+      : transport.fetch(absoluteUrl);
+  }
+
+  const event = {
+    ...getEventContext(log),
+    url: absoluteUrl,
+    method: init?.method ?? "GET",
+  };
+  events.emit("request", event, log);
+  const startedAt = Date.now();
+  try {
+    const response = requestInit
+      ? await transport.fetch(absoluteUrl, requestInit)
+      : await transport.fetch(absoluteUrl);
+    events.emit(
+      "response",
+      { ...event, status: response.status, durationMs: Date.now() - startedAt },
+      log
+    );
+    return response;
+  } catch (error) {
+    events.emit(
+      "response",
+      { ...event, status: null, durationMs: Date.now() - startedAt, error },
+      log
+    );
+    throw error;
+  }
+}
+
+/**
+ * Creates the error for an unsuccessful response: `RateLimitedError` for
+ * 429, `RegionRestrictedError` for 451 and `SpotifyApiError` otherwise.
+ *
+ * @param message - Description of the failed operation
+ * @param response - The unsuccessful response
+ * @returns The error to throw
+ */
+export function createResponseError(
+  message: string,
+  response: Response
+): SpotifyApiError {
+  const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+  switch (response.status) {
+    case 429:
+      return new RateLimitedError(message, retryAfterMs);
+    case 451:
+      return new RegionRestrictedError(message, 451);
+    default:
+      return new SpotifyApiError(message, response.status, retryAfterMs);
+  }
+}
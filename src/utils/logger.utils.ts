@@ -1,18 +1,33 @@
-import { LoggerOptions, LogLevel } from "../types/logger.types";
+import {
+  LogFormat,
+  LoggerOptions,
+  LogLevel,
+  LogRecord,
+} from "../types/logger.types";
+
+/**
+ * Context fields added to every record of a child logger.
+ */
+type LogFields = Record<string, unknown>;
 
 /**
  * Logger class for handling debug output in the spotify-audio-previews package.
  */
 export class Logger {
   private level: LogLevel;
-  private custom?: (level: string, message: string, data?: any) => void;
+  private custom?: LoggerOptions["custom"];
   private timestamps: boolean;
+  private format: LogFormat;
+  private redact?: (record: LogRecord) => LogRecord;
+  private fields: LogFields = {};
   private static currentLogger: Logger = new Logger(); // Default logger
 
   constructor(options: LoggerOptions = {}) {
     this.level = options.level ?? LogLevel.NONE;
     this.custom = options.custom;
     this.timestamps = options.timestamps !== false;
+    this.format = options.format ?? "text";
+    this.redact = options.redact;
   }
 
   /**
@@ -23,19 +38,60 @@ export class Logger {
     return `[${new Date().toISOString()}] `;
   }
 
+  /**
+   * Build the structured record for a log entry, including context fields.
+   */
+  private createRecord(level: string, message: string, data?: any): LogRecord {
+    const ts = new Date().toISOString();
+    const record: LogRecord = Object.assign(
+      { ts, level, msg: message },
+      this.fields,
+      toLogFields(data),
+      // Data cannot override the base fields
+      { ts, level, msg: message }
+    );
+    return this.redact ? this.redact(record) : record;
+  }
+
+  /**
+   * Output a log entry to the custom logger or the console.
+   */
+  private write(
+    level: "ERROR" | "WARN" | "INFO" | "DEBUG",
+    print: (...args: any[]) => void,
+    message: string,
+    data?: any
+  ): void {
+    const record = this.createRecord(level, message, data);
+
+    if (this.format === "json" && !this.custom) {
+      print(stringifyRecord(record));
+      return;
+    }
+
+    if (this.redact) {
+      // Only pass on what survived redaction
+      const { ts, level: _level, msg, ...fields } = record;
+      message = msg;
+      data = Object.keys(fields).length ? fields : undefined;
+    }
+
+    if (this.custom) {
+      this.custom(level, message, data, record);
+    } else {
+      print(
+        `${this.getTimestamp()}[spotify-audio-previews ${level}] ${message}`,
+        data !== undefined ? data : ""
+      );
+    }
+  }
+
   /**
    * Log an error message.
    */
   error(message: string, data?: any): void {
     if (this.level >= LogLevel.ERROR) {
-      if (this.custom) {
-        this.custom("ERROR", message, data);
-      } else {
-        console.error(
-          `${this.getTimestamp()}[spotify-audio-previews ERROR] ${message}`,
-          data !== undefined ? data : ""
-        );
-      }
+      this.write("ERROR", console.error, message, data);
     }
   }
 
@@ -44,14 +100,7 @@ export class Logger {
    */
   warn(message: string, data?: any): void {
     if (this.level >= LogLevel.WARN) {
-      if (this.custom) {
-        this.custom("WARN", message, data);
-      } else {
-        console.warn(
-          `${this.getTimestamp()}[spotify-audio-previews WARN] ${message}`,
-          data !== undefined ? data : ""
-        );
-      }
+      this.write("WARN", console.warn, message, data);
     }
   }
 
@@ -60,14 +109,7 @@ export class Logger {
    */
   info(message: string, data?: any): void {
     if (this.level >= LogLevel.INFO) {
-      if (this.custom) {
-        this.custom("INFO", message, data);
-      } else {
-        console.info(
-          `${this.getTimestamp()}[spotify-audio-previews INFO] ${message}`,
-          data !== undefined ? data : ""
-        );
-      }
+      this.write("INFO", console.info, message, data);
     }
   }
 
@@ -76,14 +118,7 @@ export class Logger {
    */
   debug(message: string, data?: any): void {
     if (this.level >= LogLevel.DEBUG) {
-      if (this.custom) {
-        this.custom("DEBUG", message, data);
-      } else {
-        console.debug(
-          `${this.getTimestamp()}[spotify-audio-previews DEBUG] ${message}`,
-          data !== undefined ? data : ""
-        );
-      }
+      this.write("DEBUG", console.debug, message, data);
     }
   }
 
@@ -114,6 +149,12 @@ export class Logger {
     if (options.timestamps !== undefined) {
       this.timestamps = options.timestamps;
     }
+    if (options.format !== undefined) {
+      this.format = options.format;
+    }
+    if (options.redact !== undefined) {
+      this.redact = options.redact;
+    }
     return this;
   }
 
@@ -125,9 +166,31 @@ export class Logger {
     cloned.level = this.level;
     cloned.custom = this.custom;
     cloned.timestamps = this.timestamps;
+    cloned.format = this.format;
+    cloned.redact = this.redact;
+    cloned.fields = this.fields;
     return cloned;
   }
 
+  /**
+   * Get the context fields added to every record.
+   */
+  getFields(): Readonly<LogFields> {
+    return this.fields;
+  }
+
+  /**
+   * Create a logger that adds the given fields to every record, e.g. a
+   * correlation ID shared by every entry logged during one call.
+   *
+   * @param fields Context fields, merged with this logger's fields
+   */
+  child(fields: LogFields): Logger {
+    const child = this.clone();
+    child.fields = { ...this.fields, ...fields };
+    return child;
+  }
+
   /**
    * Create a temporary logger with the given options, merged with this logger's options.
    *
@@ -178,3 +241,50 @@ export async function withLogger<T>(
   // Execute the function with the temporary logger
   return await fn(tempLogger);
 }
+
+/**
+ * Creates a short random ID used to correlate the log entries of one call.
+ *
+ * @returns The ID
+ */
+export function createRequestId(): string {
+  return Math.random().toString(36).slice(2, 10).padEnd(8, "0");
+}
+
+/**
+ * Converts log data to record fields: plain objects are merged into the
+ * record, errors are stored under `error` and anything else under `data`.
+ */
+function toLogFields(data: any): LogFields {
+  if (data === undefined) return {};
+  if (data instanceof Error) return { error: data };
+  if (
+    typeof data === "object" &&
+    data !== null &&
+    Object.getPrototypeOf(data) === Object.prototype
+  ) {
+    return data;
+  }
+  return { data };
+}
+
+/**
+ * Serializes a record to a single JSON line. Errors are reduced to their
+ * name, message and own properties; values that cannot be serialized, such
+ * as circular references, are replaced rather than thrown.
+ */
+function stringifyRecord(record: LogRecord): string {
+  const replacer = (_key: string, value: unknown) => {
+    if (value instanceof Error) {
+      return { name: value.name, message: value.message, ...value };
+    }
+    return typeof value === "bigint" ? value.toString() : value;
+  };
+
+  try {
+    return JSON.stringify(record, replacer);
+  } catch {
+    const { ts, level, msg } = record;
+    return JSON.stringify({ ts, level, msg, data: "[Unserializable]" });
+  }
+}
@@ -0,0 +1,166 @@
+import {
+  PreviewCandidate,
+  PreviewMatch,
+  PreviewProviderContext,
+} from "../types/provider.types";
+import { TrackInfo } from "../types/track.types";
+import { extractEmbedEntity, toTrackInfo } from "./embed.utils";
+import { Logger } from "./logger.utils";
+
+// Weights of the title, artist and duration similarities in a score
+const TITLE_WEIGHT = 0.5;
+const ARTIST_WEIGHT = 0.3;
+const DURATION_WEIGHT = 0.2;
+
+// Durations this close are considered equal; this far apart, unrelated
+const DURATION_TOLERANCE_MS = 2000;
+const DURATION_MISMATCH_MS = 20000;
+
+/**
+ * Reads the metadata of the track being looked up from its embed page.
+ *
+ * @param trackId - The track ID
+ * @param context - Request helpers for this call
+ * @returns The track metadata
+ * @throws {EmbedParseError} If the embed page cannot be parsed
+ */
+async function getMatchTarget(
+  trackId: string,
+  context: PreviewProviderContext
+): Promise<TrackInfo> {
+  const html = await context.getEmbedPage();
+  return toTrackInfo(extractEmbedEntity(html, context.log), trackId);
+}
+
+/**
+ * Normalizes a title or artist name for comparison: lowercases it, strips
+ * accents, and removes version suffixes such as "(Remastered 2009)",
+ * "- Radio Edit" and featured artists.
+ *
+ * @param value - The title or name
+ * @returns The words of the normalized value
+ */
+function normalizeForMatch(value: string): string[] {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+[-–—]\s+.*$/, "")
+    .replace(/[([].*?[)\]]/g, " ")
+    .replace(/\b(feat|ft|featuring)\b.*$/, "")
+    .replace(/&/g, " and ")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Similarity of two strings, from 0 to 1: the Dice coefficient of their
+ * normalized words.
+ */
+function similarity(a: string, b: string): number {
+  const wordsA = normalizeForMatch(a);
+  const wordsB = normalizeForMatch(b);
+  if (!wordsA.length || !wordsB.length) return 0;
+
+  const remaining = [...wordsB];
+  let common = 0;
+  for (const word of wordsA) {
+    const index = remaining.indexOf(word);
+    if (index !== -1) {
+      remaining.splice(index, 1);
+      common++;
+    }
+  }
+  return (2 * common) / (wordsA.length + wordsB.length);
+}
+
+/**
+ * Scores how likely a candidate is the same recording as a Spotify track,
+ * from 0 to 1. Matching ISRCs score 1; otherwise the score weighs the title,
+ * artist and duration similarities.
+ *
+ * @param target - The Spotify track
+ * @param candidate - The track found on an alternate service
+ * @returns The score, rounded to two decimals
+ */
+function scoreCandidate(
+  target: TrackInfo,
+  candidate: PreviewCandidate
+): number {
+  if (
+    target.isrc &&
+    candidate.isrc &&
+    target.isrc.toUpperCase() === candidate.isrc.toUpperCase()
+  ) {
+    return 1;
+  }
+
+  const title = similarity(target.title, candidate.title);
+  const artist = Math.max(
+    0,
+    ...target.artists.flatMap(({ name }) =>
+      candidate.artists.map((other) => similarity(name, other))
+    )
+  );
+
+  let duration = 0.5;
+  if (target.durationMs !== null && candidate.durationMs !== null) {
+    const difference = Math.abs(target.durationMs - candidate.durationMs);
+    duration = Math.min(
+      1,
+      Math.max(
+        0,
+        (DURATION_MISMATCH_MS - difference) /
+          (DURATION_MISMATCH_MS - DURATION_TOLERANCE_MS)
+      )
+    );
+  }
+
+  const score =
+    TITLE_WEIGHT * title + ARTIST_WEIGHT * artist + DURATION_WEIGHT * duration;
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Picks the best scoring candidate, if it reaches the minimum confidence.
+ *
+ * @param target - The Spotify track
+ * @param candidates - The tracks found on an alternate service
+ * @param source - Name of the alternate service
+ * @param minConfidence - Minimum score of the returned match
+ * @param log - Logger to use
+ * @returns The best match, or null if no candidate is close enough
+ */
+function pickBestMatch(
+  target: TrackInfo,
+  candidates: PreviewCandidate[],
+  source: string,
+  minConfidence: number,
+  log: Logger
+): PreviewMatch | null {
+  let best: PreviewMatch | null = null;
+  for (const candidate of candidates) {
+    const score = scoreCandidate(target, candidate);
+    log.debug(
+      `Candidate "${candidate.title}" by ${candidate.artists.join(
+        ", "
+      )} scored ${score}`
+    );
+    if (score >= minConfidence && (!best || score > best.matchConfidence)) {
+      best = {
+        previewUrl: candidate.previewUrl,
+        source,
+        matchConfidence: score,
+      };
+    }
+  }
+
+  if (!best) {
+    log.debug(
+      `No ${source} candidate reached a confidence of ${minConfidence} among ${candidates.length}`
+    );
+  }
+  return best;
+}
+
+export { getMatchTarget, normalizeForMatch, pickBestMatch, scoreCandidate };
@@ -1,6 +1,26 @@
-import { InvalidSpotifyUrlError, InvalidTrackIdError } from "../errors";
+import {
+  InvalidSpotifyIdError,
+  InvalidSpotifyUrlError,
+  InvalidTrackIdError,
+} from "../errors";
+import {
+  SpotifyEntityType,
+  SpotifyReference,
+  SpotifyReferenceType,
+} from "../types/track.types";
 import { Logger, logger } from "../utils/logger.utils";
 
+const ID_REGEX = /^[a-zA-Z0-9]{22}$/;
+
+const REFERENCE_TYPES: SpotifyReferenceType[] = [
+  "track",
+  "album",
+  "playlist",
+  "artist",
+  "episode",
+  "chapter",
+];
+
 /**
  * Extracts the track ID from a Spotify track URL.
  *
@@ -10,23 +30,118 @@ import { Logger, logger } from "../utils/logger.utils";
  * @throws {InvalidSpotifyUrlError} If the URL doesn't contain a valid track ID
  */
 function extractTrackIdFromUrl(url: string, log: Logger = logger): string {
-  log.debug(`Extracting track ID from URL: ${url}`);
+  return extractSpotifyIdFromUrl(url, "track", log);
+}
+
+/**
+ * Extracts the ID of a track, album, playlist, artist, episode or chapter from a Spotify URL or URI.
+ *
+ * @param url - The Spotify URL or URI
+ * @param type - The type of entity the URL should point to
+ * @param log - Optional logger to use (defaults to global logger)
+ * @returns The entity ID
+ * @throws {InvalidSpotifyUrlError} If the URL doesn't contain a valid ID of the given type
+ */
+function extractSpotifyIdFromUrl(
+  url: string,
+  type: SpotifyEntityType,
+  log: Logger = logger
+): string {
+  log.debug(`Extracting ${type} ID from URL: ${url}`);
 
-  if (!url.includes("spotify.com") || !url.includes("/track/")) {
-    log.error(`URL does not contain "spotify.com" or "/track/": ${url}`);
-    throw new InvalidSpotifyUrlError(url);
+  let reference: SpotifyReference;
+  try {
+    reference = parseSpotifyReference(url, log);
+  } catch (error) {
+    throw new InvalidSpotifyUrlError(url, type);
   }
 
-  const regex = /\/track\/([a-zA-Z0-9]+)(?:\?|$)/;
-  const match = url.match(regex);
+  if (reference.type !== type) {
+    log.error(`URL points to a ${reference.type}, not a ${type}: ${url}`);
+    throw new InvalidSpotifyUrlError(url, type);
+  }
 
-  if (!match || !match[1]) {
-    log.error(`Failed to extract track ID from URL: ${url}`);
-    throw new InvalidSpotifyUrlError(url);
+  log.debug(`Successfully extracted ${type} ID: ${reference.id}`);
+  return reference.id;
+}
+
+/**
+ * Parses a Spotify URL or URI into the type and ID of the entity it points to.
+ *
+ * @description Accepts `spotify:{type}:{id}` URIs and open.spotify.com URLs, including
+ * localized (`/intl-de/...`) and embed (`/embed/...`) paths, query strings and fragments.
+ * Short links (spotify.link) must be resolved first with `resolveSpotifyReference`.
+ * @param input - The Spotify URL or URI
+ * @param log - Optional logger to use (defaults to global logger)
+ * @returns The type and ID of the entity
+ * @throws {InvalidSpotifyUrlError} If the input is not a valid Spotify URL or URI
+ */
+function parseSpotifyReference(
+  input: string,
+  log: Logger = logger
+): SpotifyReference {
+  log.debug(`Parsing Spotify reference: ${input}`);
+  const value = input.trim();
+
+  // spotify:{type}:{id}
+  const uriMatch = value.match(/^spotify:([a-z]+):([^:?#]+)$/);
+  if (uriMatch) {
+    return toReference(uriMatch[1], uriMatch[2], input, log);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z]+:\/\//i.test(value) ? value : `https://${value}`);
+  } catch (error) {
+    log.error(`Not a Spotify URL or URI: ${input}`);
+    throw new InvalidSpotifyUrlError(input);
   }
 
-  log.debug(`Successfully extracted track ID: ${match[1]}`);
-  return match[1];
+  if (
+    url.hostname !== "spotify.com" &&
+    !url.hostname.endsWith(".spotify.com")
+  ) {
+    log.error(`URL is not a spotify.com URL: ${input}`);
+    throw new InvalidSpotifyUrlError(input);
+  }
+
+  // Drop localized ("intl-de") and embed prefixes
+  const segments = url.pathname.split("/").filter(Boolean);
+  while (
+    segments.length > 2 &&
+    (/^intl-[a-z-]+$/i.test(segments[0]) || segments[0] === "embed")
+  ) {
+    segments.shift();
+  }
+
+  if (segments.length !== 2) {
+    log.error(`Unrecognized Spotify URL path: ${url.pathname}`);
+    throw new InvalidSpotifyUrlError(input);
+  }
+
+  return toReference(segments[0], segments[1], input, log);
+}
+
+/**
+ * Validates the type and ID of a parsed reference.
+ */
+function toReference(
+  type: string,
+  id: string,
+  input: string,
+  log: Logger
+): SpotifyReference {
+  if (!REFERENCE_TYPES.includes(type as SpotifyReferenceType)) {
+    log.error(`Unsupported Spotify entity type "${type}": ${input}`);
+    throw new InvalidSpotifyUrlError(input);
+  }
+  if (!ID_REGEX.test(id)) {
+    log.error(`Invalid ${type} ID "${id}": ${input}`);
+    throw new InvalidSpotifyUrlError(input, type);
+  }
+
+  log.debug(`Parsed Spotify reference: ${type} ${id}`);
+  return { type: type as SpotifyReferenceType, id };
 }
 
 /**
@@ -39,18 +154,42 @@ function extractTrackIdFromUrl(url: string, log: Logger = logger): string {
  * @throws {InvalidTrackIdError} If the track ID format is invalid
  */
 function validateSpotifyTrackId(trackId: string, log: Logger = logger): true {
-  log.debug(`Validating track ID: ${trackId}`);
-  const regex = /^[a-zA-Z0-9]{22}$/;
+  return validateSpotifyId(trackId, "track", log);
+}
+
+/**
+ * Validates a Spotify ID.
+ *
+ * @description Validates the ID of a track, album, playlist, artist, episode or chapter. A valid ID is a 22-character alphanumeric string
+ * @param id - The Spotify ID to validate
+ * @param type - The type of entity the ID belongs to
+ * @param log - Optional logger to use (defaults to global logger)
+ * @returns `true` if the ID is valid
+ * @throws {InvalidTrackIdError} If `type` is "track" and the ID format is invalid
+ * @throws {InvalidSpotifyIdError} If the ID format is invalid
+ */
+function validateSpotifyId(
+  id: string,
+  type: SpotifyEntityType,
+  log: Logger = logger
+): true {
+  log.debug(`Validating ${type} ID: ${id}`);
 
-  if (!regex.test(trackId)) {
-    log.error(
-      `Invalid track ID format: ${trackId} (length: ${trackId.length})`
-    );
-    throw new InvalidTrackIdError(trackId);
+  if (!ID_REGEX.test(id)) {
+    log.error(`Invalid ${type} ID format: ${id} (length: ${id.length})`);
+    throw type === "track"
+      ? new InvalidTrackIdError(id)
+      : new InvalidSpotifyIdError(id, type);
   }
 
-  log.debug(`Track ID is valid: ${trackId}`);
+  log.debug(`${type} ID is valid: ${id}`);
   return true;
 }
 
-export { extractTrackIdFromUrl, validateSpotifyTrackId };
+export {
+  extractSpotifyIdFromUrl,
+  extractTrackIdFromUrl,
+  parseSpotifyReference,
+  validateSpotifyId,
+  validateSpotifyTrackId,
+};
@@ -0,0 +1,150 @@
+import { RateLimitOptions } from "../types/rate-limit.types";
+import { getAbortError } from "./abort.utils";
+import { Logger } from "./logger.utils";
+
+const DEFAULT_INTERVAL_MS = 1000;
+
+/**
+ * A request waiting for a token.
+ */
+interface QueuedRequest {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Token bucket pacing outgoing requests. The bucket holds up to `requests`
+ * tokens (at least one, so fractional limits still let requests through) and
+ * refills continuously at `requests` tokens per `intervalMs`.
+ * Requests that find it empty wait in a FIFO queue.
+ */
+export class RateLimiter {
+  private capacity: number;
+  private refillPerMs: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: QueuedRequest[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private onQueueChange?: (queueDepth: number) => void;
+
+  /**
+   * @param options - Rate limit options
+   * @throws {RangeError} If `requests` or `intervalMs` is not positive
+   */
+  constructor(options: RateLimitOptions) {
+    const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    if (!(options.requests > 0) || !(intervalMs > 0)) {
+      throw new RangeError(
+        `Invalid rate limit: ${options.requests} requests per ${intervalMs}ms. Both must be positive.`
+      );
+    }
+
+    this.capacity = Math.max(1, options.requests);
+    this.refillPerMs = options.requests / intervalMs;
+    this.tokens = this.capacity;
+    this.onQueueChange = options.onQueueChange;
+  }
+
+  /**
+   * Number of requests currently waiting for a token.
+   */
+  get queueDepth(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Waits for a token.
+   *
+   * @param signal - Signal that removes the request from the queue
+   * @param log - Logger to use
+   * @throws {SpotifyAbortError | SpotifyTimeoutError} If the signal is aborted while waiting
+   */
+  acquire(signal: AbortSignal | undefined, log: Logger): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(getAbortError(signal));
+    }
+
+    this.refill();
+    if (this.queue.length === 0 && this.tokens >= 1) {
+      this.tokens--;
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const request: QueuedRequest = { resolve, reject, signal };
+      if (signal) {
+        request.onAbort = () => {
+          const index = this.queue.indexOf(request);
+          if (index < 0) return;
+          this.queue.splice(index, 1);
+          this.onQueueChange?.(this.queue.length);
+          reject(getAbortError(signal));
+        };
+        signal.addEventListener("abort", request.onAbort, { once: true });
+      }
+
+      this.queue.push(request);
+      this.onQueueChange?.(this.queue.length);
+      log.debug(
+        `Rate limit reached, waiting about ${this.getWaitMs(
+          this.queue.length
+        )}ms (queue depth: ${this.queue.length})`
+      );
+      this.schedule();
+    });
+  }
+
+  /**
+   * Adds the tokens accumulated since the last refill.
+   */
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.lastRefill) * this.refillPerMs
+    );
+    this.lastRefill = now;
+  }
+
+  /**
+   * Time in milliseconds until `count` tokens are available.
+   */
+  private getWaitMs(count: number): number {
+    return Math.max(0, Math.ceil((count - this.tokens) / this.refillPerMs));
+  }
+
+  /**
+   * Wakes up once the next queued request can get a token.
+   */
+  private schedule(): void {
+    if (this.timer || this.queue.length === 0) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, this.getWaitMs(1));
+  }
+
+  /**
+   * Hands out tokens to queued requests, in order.
+   */
+  private drain(): void {
+    this.refill();
+
+    let released = false;
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      const request = this.queue.shift()!;
+      request.signal?.removeEventListener("abort", request.onAbort!);
+      this.tokens--;
+      released = true;
+      request.resolve();
+    }
+
+    if (released) {
+      this.onQueueChange?.(this.queue.length);
+    }
+    this.schedule();
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  EmbedParseError,
+  InvalidMarketError,
+  InvalidSpotifyIdError,
+  InvalidSpotifyUrlError,
+  NetworkError,
+  NoPreviewAvailableError,
+  RateLimitedError,
+  RegionRestrictedError,
+  SpotifyAbortError,
+  SpotifyApiError,
+  SpotifyPreviewError,
+  SpotifyTimeoutError,
+  TrackNotFoundError,
+} from "../errors";
+import { PreviewFailure } from "../types/index";
+
+/**
+ * Converts an error raised during a lookup to a failed result, classifying
+ * it by reason. Subclasses are checked before the classes they extend.
+ *
+ * @param error - The error raised during the lookup
+ * @param trackId - The resolved track ID, or null if the input could not be parsed
+ * @returns The failed result
+ */
+function toPreviewFailure(
+  error: SpotifyPreviewError,
+  trackId: string | null
+): PreviewFailure {
+  const failure = { ok: false as const, trackId };
+
+  if (error instanceof NoPreviewAvailableError) {
+    return { ...failure, reason: "no-preview", error };
+  }
+  if (
+    error instanceof InvalidSpotifyIdError ||
+    error instanceof InvalidSpotifyUrlError ||
+    error instanceof InvalidMarketError
+  ) {
+    return { ...failure, reason: "invalid-input", error };
+  }
+  if (error instanceof TrackNotFoundError) {
+    return { ...failure, reason: "not-found", error };
+  }
+  if (error instanceof RegionRestrictedError) {
+    return { ...failure, reason: "region-restricted", error };
+  }
+  if (error instanceof RateLimitedError) {
+    return { ...failure, reason: "rate-limited", error };
+  }
+  if (error instanceof NetworkError) {
+    return { ...failure, reason: "network-error", error };
+  }
+  if (error instanceof SpotifyApiError) {
+    return { ...failure, reason: "api-error", error };
+  }
+  if (error instanceof EmbedParseError) {
+    return { ...failure, reason: "parse-error", error };
+  }
+  if (error instanceof SpotifyTimeoutError) {
+    return { ...failure, reason: "timeout", error };
+  }
+  if (error instanceof SpotifyAbortError) {
+    return { ...failure, reason: "aborted", error };
+  }
+  return { ...failure, reason: "unknown", error };
+}
+
+export { toPreviewFailure };
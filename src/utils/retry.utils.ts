@@ -0,0 +1,115 @@
+import { SpotifyApiError, SpotifyPreviewError } from "../errors";
+import { RetryOptions } from "../types/retry.types";
+import { sleep } from "../utils/abort.utils";
+import { Logger } from "../utils/logger.utils";
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 10000;
+const DEFAULT_RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504];
+
+/**
+ * Runs `fn` and retries it according to the retry policy. Only
+ * `SpotifyApiError`s are ever retried; the number of attempts made is
+ * attached to the error that is finally thrown.
+ *
+ * @param fn - The operation to run, receiving the 1-based attempt number
+ * @param policy - Retry policy, or undefined to make a single attempt
+ * @param log - Logger to use
+ * @param signal - Signal that cancels the delay between attempts
+ * @param onRetry - Called before waiting for each retry
+ * @returns The result of the first successful attempt
+ */
+async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryOptions | undefined,
+  log: Logger,
+  signal?: AbortSignal,
+  onRetry?: (attempt: number, delayMs: number, error: Error) => void
+): Promise<T> {
+  const maxAttempts = policy
+    ? Math.max(1, policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS)
+    : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      log.debug(`Attempt ${attempt}/${maxAttempts}`);
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= maxAttempts || !isRetryable(error, policy!)) {
+        if (error instanceof SpotifyPreviewError) {
+          error.attempts = attempt;
+        }
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(error, attempt, policy!);
+      log.warn(
+        `Attempt ${attempt}/${maxAttempts} failed, retrying in ${delayMs}ms: ${error.message}`
+      );
+      onRetry?.(attempt, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * Whether an error may be retried under the given policy.
+ */
+function isRetryable(error: unknown, policy: RetryOptions): boolean {
+  if (!(error instanceof SpotifyApiError)) {
+    return false;
+  }
+  if (error.statusCode === undefined) {
+    return policy.retryNetworkErrors !== false;
+  }
+  const codes = policy.retryableStatusCodes ?? DEFAULT_RETRYABLE_STATUS_CODES;
+  return codes.includes(error.statusCode);
+}
+
+/**
+ * Computes the delay before the next attempt, honoring Retry-After when
+ * present. Either way the delay is capped at `maxDelayMs`.
+ */
+function getRetryDelay(
+  error: SpotifyApiError,
+  attempt: number,
+  policy: RetryOptions
+): number {
+  const maxDelayMs = policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  if (error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, maxDelayMs);
+  }
+
+  const baseDelayMs = policy.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const delayMs = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+
+  if (policy.jitter === false) {
+    return delayMs;
+  }
+  return Math.round(delayMs / 2 + (Math.random() * delayMs) / 2);
+}
+
+/**
+ * Parses a Retry-After header value (delay in seconds or an HTTP date) into milliseconds.
+ *
+ * @param value - The header value
+ * @returns The delay in milliseconds, or undefined if the value is missing or invalid
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+export { parseRetryAfter, withRetry };
@@ -0,0 +1,90 @@
+import { InvalidSpotifyUrlError } from "../errors";
+import {
+  createResponseError,
+  HttpTransport,
+  httpRequest,
+} from "../utils/http.utils";
+import { Logger } from "../utils/logger.utils";
+
+const SHORT_LINK_HOSTS = ["spotify.link", "spotify.app.link"];
+const MAX_REDIRECTS = 5;
+
+/**
+ * Whether the input is a Spotify short link (e.g. "https://spotify.link/abc123").
+ *
+ * @param input - The URL to check
+ * @returns `true` if the input is a short link
+ */
+export function isShortLink(input: string): boolean {
+  const value = input.trim();
+  try {
+    const url = new URL(
+      /^https?:\/\//i.test(value) ? value : `https://${value}`
+    );
+    return SHORT_LINK_HOSTS.includes(url.hostname);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Follows the redirects of a Spotify short link until it reaches a regular Spotify URL.
+ *
+ * @param shortLink - The short link to resolve
+ * @param transport - The transport used for the requests
+ * @param init - Additional request options (e.g. an abort signal)
+ * @param log - Logger to use
+ * @returns The URL the short link points to
+ * @throws {SpotifyApiError} If a request fails
+ * @throws {InvalidSpotifyUrlError} If the short link does not lead to a Spotify URL
+ */
+export async function resolveShortLink(
+  shortLink: string,
+  transport: HttpTransport,
+  init: RequestInit | undefined,
+  log: Logger
+): Promise<string> {
+  let current = shortLink.trim();
+  if (!/^https?:\/\//i.test(current)) {
+    current = `https://${current}`;
+  }
+
+  for (let hop = 0; hop < MAX_REDIRECTS; hop++) {
+    log.debug(`Resolving short link: ${current}`);
+    const response = await httpRequest(
+      transport,
+      current,
+      { ...init, redirect: "manual" },
+      log
+    );
+    log.debug(`Response status: ${response.status}`);
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      current = new URL(location, current).toString();
+      if (!isShortLink(current)) {
+        log.info(`Resolved short link ${shortLink} to ${current}`);
+        return current;
+      }
+      continue;
+    }
+
+    if (!response.ok) {
+      log.error(`API error: ${response.status} ${response.statusText}`);
+      throw createResponseError(`Failed to resolve short link`, response);
+    }
+
+    // Some short links answer with an HTML page that redirects in the browser
+    const html = await response.text();
+    const match = html.match(/https:\/\/open\.spotify\.com\/[^"'\s<>]+/);
+    if (match) {
+      const resolved = match[0].replace(/&amp;/g, "&");
+      log.info(`Resolved short link ${shortLink} to ${resolved}`);
+      return resolved;
+    }
+    break;
+  }
+
+  log.error(`Short link does not lead to a Spotify URL: ${shortLink}`);
+  throw new InvalidSpotifyUrlError(shortLink);
+}
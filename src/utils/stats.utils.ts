@@ -0,0 +1,113 @@
+import { LatencyStats, PreviewStats } from "../types/events.types";
+import { PreviewEventEmitter } from "./events.utils";
+
+// Number of recent samples latency percentiles are computed from
+const MAX_LATENCY_SAMPLES = 1000;
+
+/**
+ * Collects runtime statistics from the lifecycle events of a client.
+ */
+export class StatsCollector {
+  private lookups = { total: 0, preview: 0, noPreview: 0, error: 0 };
+  private cacheHits = 0;
+  private requests = 0;
+  private responses: Record<string, number> = {};
+  private retries = 0;
+  private errors: Record<string, number> = {};
+  private lookupLatency = new LatencySamples();
+  private requestLatency = new LatencySamples();
+
+  /**
+   * @param events - Emitter whose events are counted
+   */
+  constructor(events: PreviewEventEmitter) {
+    events.on("request", () => this.requests++);
+    events.on("response", ({ status, durationMs }) => {
+      const key = status === null ? "network-error" : String(status);
+      this.responses[key] = (this.responses[key] ?? 0) + 1;
+      this.requestLatency.add(durationMs);
+    });
+    events.on("retry", () => this.retries++);
+    events.on("cacheHit", () => this.cacheHits++);
+    events.on("preview", ({ durationMs }) => {
+      this.countLookup("preview", durationMs);
+    });
+    events.on("noPreview", ({ durationMs }) => {
+      this.countLookup("noPreview", durationMs);
+    });
+    events.on("error", ({ error, durationMs }) => {
+      this.countLookup("error", durationMs);
+      this.errors[error.name] = (this.errors[error.name] ?? 0) + 1;
+    });
+  }
+
+  /**
+   * Returns a snapshot of the statistics collected so far.
+   */
+  getStats(): PreviewStats {
+    return {
+      lookups: { ...this.lookups },
+      cacheHits: this.cacheHits,
+      requests: this.requests,
+      responses: { ...this.responses },
+      retries: this.retries,
+      errors: { ...this.errors },
+      latency: {
+        lookup: this.lookupLatency.summarize(),
+        request: this.requestLatency.summarize(),
+      },
+    };
+  }
+
+  /**
+   * Counts a completed lookup.
+   */
+  private countLookup(
+    outcome: "preview" | "noPreview" | "error",
+    durationMs: number
+  ): void {
+    this.lookups.total++;
+    this.lookups[outcome]++;
+    this.lookupLatency.add(durationMs);
+  }
+}
+
+/**
+ * Ring buffer of the most recent latency samples.
+ */
+class LatencySamples {
+  private samples: number[] = [];
+  private next = 0;
+
+  /**
+   * Adds a sample, replacing the oldest one once the buffer is full.
+   */
+  add(durationMs: number): void {
+    if (this.samples.length < MAX_LATENCY_SAMPLES) {
+      this.samples.push(durationMs);
+    } else {
+      this.samples[this.next] = durationMs;
+      this.next = (this.next + 1) % MAX_LATENCY_SAMPLES;
+    }
+  }
+
+  /**
+   * Computes the percentiles of the samples, using the nearest-rank method.
+   */
+  summarize(): LatencyStats {
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const percentile = (p: number) =>
+      sorted.length
+        ? sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]
+        : null;
+
+    return {
+      count: sorted.length,
+      p50: percentile(50),
+      p90: percentile(90),
+      p95: percentile(95),
+      p99: percentile(99),
+      max: sorted.length ? sorted[sorted.length - 1] : null,
+    };
+  }
+}
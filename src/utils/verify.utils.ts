@@ -0,0 +1,127 @@
+import { PreviewVerification, VerifyMethod } from "../types/verify.types";
+import { getAbortError } from "./abort.utils";
+import { isAudioContentType } from "./download.utils";
+import { HttpTransport, httpRequest } from "./http.utils";
+import { Logger } from "./logger.utils";
+import { isShortLink } from "./shortlink.utils";
+
+// Statuses meaning the server does not support HEAD requests
+const HEAD_UNSUPPORTED_STATUSES = [405, 501];
+
+/**
+ * Whether the input is the URL of an audio file rather than a reference to
+ * a Spotify track: an http(s) URL outside spotify.com and its short links.
+ *
+ * @param input - A preview URL, or a track ID, URL, URI or short link
+ * @returns true if the input is a preview URL
+ */
+export function isPreviewUrl(input: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    return false;
+  }
+
+  return (
+    /^https?:$/.test(url.protocol) &&
+    url.hostname !== "spotify.com" &&
+    !url.hostname.endsWith(".spotify.com") &&
+    !isShortLink(input)
+  );
+}
+
+/**
+ * Checks that a preview URL answers with a successful audio response,
+ * without downloading it. A failed request is reported as unreachable.
+ *
+ * @param transport - The transport to send the request through
+ * @param url - The preview URL
+ * @param method - `"HEAD"`, or `"GET"` for a ranged request of the first byte
+ * @param signal - Optional signal to cancel the request
+ * @param log - Logger to use
+ * @returns The verification outcome
+ * @throws {SpotifyTimeoutError} If the signal is aborted by a timeout
+ * @throws {SpotifyAbortError} If the signal is aborted
+ */
+export async function verifyPreviewUrl(
+  transport: HttpTransport,
+  url: string,
+  method: VerifyMethod,
+  signal: AbortSignal | undefined,
+  log: Logger
+): Promise<PreviewVerification> {
+  log.debug(`Verifying preview URL with ${method}: ${url}`);
+  const startedAt = Date.now();
+
+  let response: Response;
+  try {
+    response = await httpRequest(
+      transport,
+      url,
+      {
+        method,
+        ...(method === "GET" && { headers: { Range: "bytes=0-0" } }),
+        ...(signal && { signal }),
+      },
+      log
+    );
+  } catch (error) {
+    if (signal?.aborted) {
+      throw getAbortError(signal);
+    }
+    log.warn(`Preview URL is unreachable: ${url}`, error);
+    return {
+      url,
+      reachable: false,
+      status: null,
+      contentType: null,
+      contentLength: null,
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+  const latencyMs = Date.now() - startedAt;
+
+  if (
+    method === "HEAD" &&
+    HEAD_UNSUPPORTED_STATUSES.includes(response.status)
+  ) {
+    log.debug(`HEAD is not supported (${response.status}), using GET`);
+    return verifyPreviewUrl(transport, url, "GET", signal, log);
+  }
+  // Only the headers are needed
+  await response.body?.cancel().catch(() => {});
+
+  const contentType = response.headers.get("content-type");
+  const verification: PreviewVerification = {
+    url,
+    reachable: response.ok && isAudioContentType(contentType),
+    status: response.status,
+    contentType,
+    contentLength: getContentLength(response),
+    latencyMs,
+  };
+
+  if (verification.reachable) {
+    log.debug(
+      `Preview URL is reachable (${response.status}) in ${latencyMs}ms`
+    );
+  } else {
+    log.warn(`Preview URL is unreachable (${response.status}): ${url}`);
+  }
+  return verification;
+}
+
+/**
+ * Returns the size of the whole file: the total of a partial response's
+ * Content-Range, or the Content-Length of a full one.
+ */
+function getContentLength(response: Response): number | null {
+  const contentRange = response.headers.get("content-range");
+  const length =
+    response.status === 206 && contentRange
+      ? contentRange.match(/\/(\d+)$/)?.[1]
+      : response.headers.get("content-length");
+  const bytes = length != null ? Number(length) : NaN;
+  return Number.isFinite(bytes) ? bytes : null;
+}
@@ -0,0 +1,208 @@
+import {
+  PreviewStateStore,
+  WatchEventListener,
+  WatchEventMap,
+  WatchEventName,
+  WatchedPreviewState,
+} from "../types/watch.types";
+import { mapWithConcurrency } from "./concurrency.utils";
+import { Logger } from "./logger.utils";
+
+// Default time between two check rounds (1 hour)
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_CONCURRENCY = 5;
+
+/**
+ * Looks up the current preview URL of a track, failing once `signal` aborts.
+ */
+export type PreviewCheck = (
+  trackId: string,
+  signal: AbortSignal
+) => Promise<string | null>;
+
+/**
+ * Re-checks the previews of a list of tracks on a schedule and emits an event
+ * whenever one is added, removed or changed.
+ *
+ * The first check of a track without a stored state only records it. Rounds
+ * never overlap: the next one is scheduled `intervalMs` after the previous
+ * one completes.
+ */
+export class PreviewWatcher {
+  private trackIds: string[];
+  private lookup: PreviewCheck;
+  private intervalMs: number;
+  private concurrency: number;
+  private store: PreviewStateStore;
+  private log: Logger;
+  private listeners = new Map<WatchEventName, Set<(event: any) => void>>();
+  private controller = new AbortController();
+  private timer?: ReturnType<typeof setTimeout>;
+  private round?: Promise<void>;
+
+  /**
+   * @param trackIds - The tracks to watch
+   * @param lookup - Looks up the current preview URL of a track
+   * @param options - Schedule, concurrency and state store
+   * @param log - Logger used for the watcher's messages
+   */
+  constructor(
+    trackIds: readonly string[],
+    lookup: PreviewCheck,
+    options: {
+      intervalMs?: number;
+      concurrency?: number;
+      store?: PreviewStateStore;
+    },
+    log: Logger
+  ) {
+    this.trackIds = [...new Set(trackIds)];
+    this.lookup = lookup;
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    this.store = options.store ?? new Map<string, WatchedPreviewState>();
+    this.log = log;
+  }
+
+  /**
+   * Whether the watcher has not been stopped.
+   */
+  get running(): boolean {
+    return !this.controller.signal.aborted;
+  }
+
+  /**
+   * Adds a listener for a watch event.
+   *
+   * @param event - Event name
+   * @param listener - Function called with the event payload
+   */
+  on<E extends WatchEventName>(
+    event: E,
+    listener: WatchEventListener<E>
+  ): void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+  }
+
+  /**
+   * Removes a listener added with `on`.
+   *
+   * @param event - Event name
+   * @param listener - The listener to remove
+   */
+  off<E extends WatchEventName>(
+    event: E,
+    listener: WatchEventListener<E>
+  ): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Starts a check round now, unless one is already in progress, and
+   * reschedules the next one.
+   *
+   * @returns A promise that resolves once the round completes
+   */
+  check(): Promise<void> {
+    if (!this.running) return Promise.resolve();
+    if (!this.round) {
+      clearTimeout(this.timer);
+      this.round = this.runRound().finally(() => {
+        this.round = undefined;
+        this.scheduleNext();
+      });
+    }
+    return this.round;
+  }
+
+  /**
+   * Stops the watcher: cancels the scheduled round and the lookups in
+   * progress. Results of cancelled lookups are not recorded.
+   *
+   * @returns A promise that resolves once the round in progress has settled
+   */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.controller.abort();
+    clearTimeout(this.timer);
+    this.log.info(`Stopped watching ${this.trackIds.length} tracks`);
+    await this.round;
+  }
+
+  /**
+   * Schedules the next round, unless the watcher was stopped.
+   */
+  private scheduleNext(): void {
+    if (!this.running) return;
+    this.timer = setTimeout(() => void this.check(), this.intervalMs);
+  }
+
+  /**
+   * Checks every track once. Failures are reported through `error` events,
+   * so the returned promise never rejects.
+   */
+  private async runRound(): Promise<void> {
+    const signal = this.controller.signal;
+    let changed = 0;
+    let failed = 0;
+    this.log.debug(`Checking ${this.trackIds.length} watched tracks`);
+
+    await mapWithConcurrency(
+      this.trackIds,
+      this.concurrency,
+      async (trackId) => {
+        if (signal.aborted) return;
+        try {
+          const newUrl = await this.lookup(trackId, signal);
+          if (signal.aborted) return;
+
+          const previous = await this.store.get(trackId);
+          await this.store.set(trackId, {
+            previewUrl: newUrl,
+            checkedAt: Date.now(),
+          });
+          if (!previous || previous.previewUrl === newUrl) return;
+
+          const oldUrl = previous.previewUrl;
+          const event = !oldUrl ? "added" : !newUrl ? "removed" : "changed";
+          changed++;
+          this.log.info(`Preview ${event} for track: ${trackId}`);
+          this.emit(event, { trackId, oldUrl, newUrl });
+        } catch (error) {
+          if (signal.aborted) return;
+          failed++;
+          this.log.warn(`Check failed for track: ${trackId}`, error);
+          this.emit("error", { trackId, error });
+        }
+      }
+    );
+
+    if (signal.aborted) return;
+    this.log.debug(
+      `Checked ${this.trackIds.length} tracks: ${changed} changed, ${failed} failed`
+    );
+    this.emit("check", { checked: this.trackIds.length, changed, failed });
+  }
+
+  /**
+   * Calls every listener of an event. An exception thrown by a listener is
+   * logged and does not affect the round.
+   */
+  private emit<E extends WatchEventName>(
+    event: E,
+    payload: WatchEventMap[E]
+  ): void {
+    for (const listener of [...(this.listeners.get(event) ?? [])]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.log.warn(`Listener for "${event}" event failed`, error);
+      }
+    }
+  }
+}
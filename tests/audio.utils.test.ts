@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import { Readable } from "node:stream";
+import { AudioParseError, inspectPreviewAudio } from "../src";
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, stereo: 417-byte frames of 1152 samples
+const MPEG1_HEADER = [0xff, 0xfb, 0x90, 0x00];
+const MPEG1_FRAME_LENGTH = 417;
+
+// MPEG-2 Layer III, 64 kbps, 22.05 kHz, mono: 208-byte frames of 576 samples
+const MPEG2_MONO_HEADER = [0xff, 0xf3, 0x80, 0xc0];
+const MPEG2_MONO_FRAME_LENGTH = 208;
+
+/**
+ * Builds a frame with the given header and a silent body.
+ */
+function frame(header = MPEG1_HEADER, length = MPEG1_FRAME_LENGTH): number[] {
+  const bytes = new Array(length).fill(0);
+  bytes.splice(0, header.length, ...header);
+  return bytes;
+}
+
+/**
+ * Builds an ID3v2.4 tag with `size` bytes of padding.
+ */
+function id3Tag(size: number): number[] {
+  return [
+    ...[0x49, 0x44, 0x33, 0x04, 0x00, 0x00],
+    (size >> 21) & 0x7f,
+    (size >> 14) & 0x7f,
+    (size >> 7) & 0x7f,
+    size & 0x7f,
+    ...new Array(size).fill(0),
+  ];
+}
+
+/**
+ * Builds an MPEG-1 stereo frame holding a Xing header that announces `frames` frames.
+ */
+function xingFrame(frames: number): number[] {
+  const bytes = frame();
+  // Header (4) + side information (32)
+  const xing = [0x58, 0x69, 0x6e, 0x67, 0, 0, 0, 0x01];
+  const count = [frames >>> 24, (frames >> 16) & 0xff, (frames >> 8) & 0xff];
+  bytes.splice(36, 12, ...xing, ...count, frames & 0xff);
+  return bytes;
+}
+
+/**
+ * Builds a file of `count` MPEG-1 frames, preceded by an ID3v2 tag.
+ */
+function mp3(count: number): Buffer {
+  return Buffer.from([
+    ...id3Tag(100),
+    ...Array.from({ length: count }, () => frame()).flat(),
+  ]);
+}
+
+describe("inspectPreviewAudio", () => {
+  it("should read duration, bitrate, sample rate and channels", async () => {
+    const info = await inspectPreviewAudio(mp3(10));
+
+    expect(info).toEqual({
+      durationMs: 261,
+      bitrateKbps: 128,
+      sampleRate: 44100,
+      channels: 2,
+      frames: 10,
+      truncated: false,
+      corrupt: false,
+    });
+  });
+
+  it("should read MPEG-2 mono files", async () => {
+    const bytes = Array.from({ length: 5 }, () =>
+      frame(MPEG2_MONO_HEADER, MPEG2_MONO_FRAME_LENGTH)
+    ).flat();
+
+    const info = await inspectPreviewAudio(new Uint8Array(bytes));
+
+    expect(info).toMatchObject({
+      durationMs: 131,
+      bitrateKbps: 64,
+      sampleRate: 22050,
+      channels: 1,
+      frames: 5,
+    });
+  });
+
+  it("should accept web and Node.js streams", async () => {
+    const bytes = mp3(3);
+    const webStream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.subarray(0, 50));
+        controller.enqueue(bytes.subarray(50));
+        controller.close();
+      },
+    });
+
+    expect((await inspectPreviewAudio(webStream)).frames).toBe(3);
+    expect((await inspectPreviewAudio(Readable.from([bytes]))).frames).toBe(3);
+  });
+
+  it("should skip the Xing frame and ignore an ID3v1 tag", async () => {
+    const bytes = Buffer.from([
+      ...xingFrame(4),
+      ...Array.from({ length: 4 }, () => frame()).flat(),
+      ...[0x54, 0x41, 0x47],
+      ...new Array(125).fill(0x20),
+    ]);
+
+    const info = await inspectPreviewAudio(bytes);
+
+    expect(info).toMatchObject({ frames: 4, truncated: false, corrupt: false });
+  });
+
+  it("should flag files with fewer frames than the Xing header announces", async () => {
+    const bytes = Buffer.from([
+      ...xingFrame(10),
+      ...Array.from({ length: 4 }, () => frame()).flat(),
+    ]);
+
+    const info = await inspectPreviewAudio(bytes);
+
+    expect(info).toMatchObject({ frames: 4, truncated: true });
+  });
+
+  it("should flag files that end in the middle of a frame", async () => {
+    const bytes = mp3(10);
+
+    const info = await inspectPreviewAudio(bytes.subarray(0, bytes.length - 5));
+
+    expect(info).toMatchObject({ frames: 9, truncated: true, corrupt: false });
+  });
+
+  it("should flag and skip invalid data between frames", async () => {
+    const bytes = Buffer.from([
+      ...frame(),
+      ...frame(),
+      ...[0x12, 0x34, 0x56, 0x78, 0x9a],
+      ...frame(),
+      ...frame(),
+    ]);
+
+    const info = await inspectPreviewAudio(bytes);
+
+    expect(info).toMatchObject({ frames: 4, truncated: false, corrupt: true });
+  });
+
+  it("should throw AudioParseError for data without MPEG frames", async () => {
+    await expect(
+      inspectPreviewAudio(Buffer.from("<html>Not audio</html>"))
+    ).rejects.toBeInstanceOf(AudioParseError);
+    await expect(
+      inspectPreviewAudio(Buffer.from(id3Tag(100)).subarray(0, 50))
+    ).rejects.toThrow("ID3v2 tag");
+  });
+});
@@ -0,0 +1,323 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileCacheStore, MemoryCacheStore, SpotifyAbortError } from "../src";
+import { CachedPreview, withPreviewCache } from "../src/utils/cache.utils";
+import { Logger } from "../src/utils/logger.utils";
+
+const log = new Logger();
+
+/**
+ * A lookup result of the embed provider.
+ */
+function found(previewUrl: string | null): CachedPreview {
+  return previewUrl
+    ? { previewUrl, provider: "embed", source: "spotify", matchConfidence: 1 }
+    : { previewUrl, provider: "embed", source: null, matchConfidence: null };
+}
+
+describe("MemoryCacheStore", () => {
+  it("should evict the least recently used entry", () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    store.set("a", { previewUrl: "https://a", expiresAt: Infinity });
+    store.set("b", { previewUrl: "https://b", expiresAt: Infinity });
+    store.get("a");
+    store.set("c", { previewUrl: "https://c", expiresAt: Infinity });
+
+    expect(store.size).toBe(2);
+    expect(store.get("a")).toBeDefined();
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("c")).toBeDefined();
+  });
+});
+
+describe("FileCacheStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "spotify-audio-previews-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should persist entries across instances", async () => {
+    const file = join(dir, "cache.json");
+    const entry = { previewUrl: "https://a", expiresAt: Date.now() + 60000 };
+
+    await new FileCacheStore(file).set("a", entry);
+
+    expect(JSON.parse(await readFile(file, "utf8"))).toEqual({ a: entry });
+    expect(await new FileCacheStore(file).get("a")).toEqual(entry);
+  });
+
+  it("should treat a missing file as an empty cache", async () => {
+    const store = new FileCacheStore(join(dir, "missing.json"));
+    expect(await store.get("a")).toBeUndefined();
+  });
+
+  it("should treat a corrupt file as an empty cache", async () => {
+    const file = join(dir, "cache.json");
+    await writeFile(file, "{not json", "utf8");
+    const store = new FileCacheStore(file);
+    const entry = { previewUrl: "https://a", expiresAt: Date.now() + 60000 };
+
+    expect(await store.get("a")).toBeUndefined();
+    await store.set("a", entry);
+    expect(JSON.parse(await readFile(file, "utf8"))).toEqual({ a: entry });
+  });
+
+  it("should recover from a failed write", async () => {
+    const file = join(dir, "missing-dir", "cache.json");
+    const store = new FileCacheStore(file);
+    const entry = { previewUrl: "https://a", expiresAt: Date.now() + 60000 };
+
+    await expect(store.set("a", entry)).rejects.toMatchObject({
+      code: "ENOENT",
+    });
+    await mkdir(join(dir, "missing-dir"));
+    await store.set("b", entry);
+
+    expect(JSON.parse(await readFile(file, "utf8"))).toEqual({
+      a: entry,
+      b: entry,
+    });
+  });
+
+  it("should drop expired entries when writing", async () => {
+    const file = join(dir, "cache.json");
+    const store = new FileCacheStore(file);
+    await store.set("old", { previewUrl: null, expiresAt: Date.now() - 1 });
+    await store.set("new", { previewUrl: null, expiresAt: Date.now() + 60000 });
+
+    expect(Object.keys(JSON.parse(await readFile(file, "utf8")))).toEqual([
+      "new",
+    ]);
+  });
+});
+
+describe("withPreviewCache", () => {
+  it("should return cached results without calling the lookup again", async () => {
+    const store = new MemoryCacheStore();
+    const lookup = vi.fn().mockResolvedValue(found("https://a"));
+
+    expect(await withPreviewCache("a", store, {}, lookup, log)).toEqual(
+      found("https://a")
+    );
+    expect(await withPreviewCache("a", store, {}, lookup, log)).toEqual(
+      found("https://a")
+    );
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+
+  it("should use separate TTLs for hits and no-preview results", async () => {
+    const store = new MemoryCacheStore();
+    const now = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(now);
+
+    await withPreviewCache(
+      "a",
+      store,
+      { ttlMs: 1000, noPreviewTtlMs: 10 },
+      async () => found("https://a"),
+      log
+    );
+    await withPreviewCache(
+      "b",
+      store,
+      { ttlMs: 1000, noPreviewTtlMs: 10 },
+      async () => found(null),
+      log
+    );
+
+    expect(store.get("a")?.expiresAt).toBe(now + 1000);
+    expect(store.get("b")?.expiresAt).toBe(now + 10);
+    vi.restoreAllMocks();
+  });
+
+  it("should keep the provider and source of cached previews", async () => {
+    const store = new MemoryCacheStore();
+    const match = {
+      previewUrl: "https://cdns-preview.dzcdn.net/a.mp3",
+      provider: "deezer",
+      source: "deezer",
+      matchConfidence: 0.9,
+    };
+
+    await withPreviewCache("a", store, {}, async () => match, log);
+    const cached = await withPreviewCache(
+      "a",
+      store,
+      {},
+      async () => found(null),
+      log
+    );
+
+    expect(cached).toEqual(match);
+  });
+
+  it("should read entries without a provider as unknown", async () => {
+    const store = new MemoryCacheStore();
+    store.set("a", { previewUrl: "https://a", expiresAt: Date.now() + 60000 });
+
+    expect(
+      await withPreviewCache("a", store, {}, async () => found(null), log)
+    ).toEqual({
+      previewUrl: "https://a",
+      provider: null,
+      source: null,
+      matchConfidence: null,
+    });
+  });
+
+  it("should look up expired entries again", async () => {
+    const store = new MemoryCacheStore();
+    store.set("a", { previewUrl: "https://old", expiresAt: Date.now() - 1 });
+
+    const result = await withPreviewCache(
+      "a",
+      store,
+      {},
+      async () => found("https://new"),
+      log
+    );
+
+    expect(result.previewUrl).toBe("https://new");
+  });
+
+  it("should return the looked up result when the store fails", async () => {
+    const store = {
+      get: vi.fn().mockRejectedValue(new Error("EACCES")),
+      set: vi.fn().mockRejectedValue(new Error("ENOENT")),
+      delete: vi.fn(),
+    };
+    const lookup = vi.fn().mockResolvedValue(found("https://a"));
+
+    expect(await withPreviewCache("a", store, {}, lookup, log)).toEqual(
+      found("https://a")
+    );
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(store.set).toHaveBeenCalledTimes(1);
+  });
+
+  it("should share one in-flight lookup between concurrent calls", async () => {
+    const store = new MemoryCacheStore();
+    const lookup = vi.fn(
+      () =>
+        new Promise<CachedPreview>((r) =>
+          setTimeout(() => r(found("https://a")), 5)
+        )
+    );
+
+    const results = await Promise.all([
+      withPreviewCache("a", store, {}, lookup, log),
+      withPreviewCache("a", store, {}, lookup, log),
+      withPreviewCache("a", store, {}, lookup, log),
+    ]);
+
+    expect(results.map((r) => r.previewUrl)).toEqual([
+      "https://a",
+      "https://a",
+      "https://a",
+    ]);
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+
+  it("should let other callers wait when one stops waiting", async () => {
+    const store = new MemoryCacheStore();
+    let lookupSignal: AbortSignal | undefined;
+    const lookup = vi.fn((signal: AbortSignal) => {
+      lookupSignal = signal;
+      return new Promise<CachedPreview>((r) =>
+        setTimeout(() => r(found("https://a")), 5)
+      );
+    });
+    const controller = new AbortController();
+
+    const first = withPreviewCache(
+      "a",
+      store,
+      {},
+      lookup,
+      log,
+      undefined,
+      controller.signal
+    );
+    const second = withPreviewCache("a", store, {}, lookup, log);
+    controller.abort();
+
+    await expect(first).rejects.toBeInstanceOf(SpotifyAbortError);
+    expect((await second).previewUrl).toBe("https://a");
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(lookupSignal!.aborted).toBe(false);
+  });
+
+  it("should cancel the shared lookup once no caller is waiting", async () => {
+    const store = new MemoryCacheStore();
+    let lookupSignal: AbortSignal | undefined;
+    const lookup = vi.fn((signal: AbortSignal) => {
+      lookupSignal = signal;
+      return new Promise<CachedPreview>(() => {});
+    });
+    const controller = new AbortController();
+
+    const promise = withPreviewCache(
+      "a",
+      store,
+      {},
+      lookup,
+      log,
+      undefined,
+      controller.signal
+    );
+    await vi.waitFor(() => expect(lookup).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(SpotifyAbortError);
+    expect(lookupSignal!.aborted).toBe(true);
+  });
+
+  it("should not cache failed lookups", async () => {
+    const store = new MemoryCacheStore();
+    const lookup = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("boom"))
+      .mockResolvedValueOnce(found("https://a"));
+
+    await expect(withPreviewCache("a", store, {}, lookup, log)).rejects.toThrow(
+      "boom"
+    );
+    expect(await withPreviewCache("a", store, {}, lookup, log)).toEqual(
+      found("https://a")
+    );
+  });
+
+  it("should log cache hits and misses at DEBUG", async () => {
+    const custom = vi.fn();
+    const debugLog = new Logger({ level: 4, custom });
+    const store = new MemoryCacheStore();
+
+    await withPreviewCache(
+      "a",
+      store,
+      {},
+      async () => found("https://a"),
+      debugLog
+    );
+    await withPreviewCache(
+      "a",
+      store,
+      {},
+      async () => found("https://a"),
+      debugLog
+    );
+
+    const messages = custom.mock.calls
+      .filter(([level]) => level === "DEBUG")
+      .map(([, message]) => message);
+    expect(messages).toContain("Cache miss for key: a");
+    expect(messages).toContain("Cache hit for key: a");
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { PassThrough } from "node:stream";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runCli } from "../src/cli";
+import {
+  clearFetchMocks,
+  mockFetchErrorResponse,
+  mockFetchNetworkError,
+  mockFetchResponse,
+  setupMockFetch,
+} from "./utils/fetch-mocks";
+import {
+  buildEmbedHtml,
+  noPreviewHtml,
+  trackEntity,
+} from "./utils/embed-fixtures";
+
+setupMockFetch();
+
+const ID_A = "1234567890123456789012";
+const ID_B = "abcdefghijklmnopqrstuv";
+
+/**
+ * Runs the CLI with in-memory streams and collects its output.
+ */
+async function run(argv: string[], stdinText?: string) {
+  const stdin = new PassThrough() as PassThrough & { isTTY?: boolean };
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  let out = "";
+  let err = "";
+  stdout.on("data", (chunk) => (out += chunk));
+  stderr.on("data", (chunk) => (err += chunk));
+
+  if (stdinText === undefined) {
+    stdin.isTTY = true;
+  } else {
+    stdin.end(stdinText);
+  }
+
+  const code = await runCli(argv, { stdin, stdout, stderr });
+  return { code, stdout: out, stderr: err };
+}
+
+describe("CLI", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    clearFetchMocks();
+    dir = await mkdtemp(join(tmpdir(), "spotify-audio-previews-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("should print previews for arguments as text", async () => {
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+    mockFetchResponse(noPreviewHtml);
+
+    const { code, stdout } = await run(["-c", "1", ID_A, ID_B]);
+
+    expect(code).toBe(0);
+    expect(stdout).toBe(
+      `${ID_A}\thttps://p.scdn.co/mp3-preview/abc\n${ID_B}\tno preview\n`
+    );
+  });
+
+  test("should read inputs from stdin and print NDJSON", async () => {
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+
+    const { code, stdout } = await run(
+      ["--format", "ndjson"],
+      `# comment\n\nhttps://open.spotify.com/track/${ID_A}\n`
+    );
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout)).toEqual({
+      input: `https://open.spotify.com/track/${ID_A}`,
+      trackId: ID_A,
+      previewUrl: "https://p.scdn.co/mp3-preview/abc",
+      error: null,
+    });
+  });
+
+  test("should read inputs from a file and print JSON", async () => {
+    const file = join(dir, "tracks.txt");
+    await writeFile(file, `${ID_A}\r\n${ID_B}\r\n`);
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+
+    const { code, stdout } = await run(["--file", file, "-o", "json"]);
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout).map((r: any) => r.trackId)).toEqual([ID_A, ID_B]);
+  });
+
+  test("should print CSV and exit with 1 when a lookup fails", async () => {
+    const { code, stdout } = await run(["-o", "csv", "not,valid"]);
+
+    expect(code).toBe(1);
+    const lines = stdout.trim().split("\n");
+    expect(lines[0]).toBe("input,trackId,previewUrl,error");
+    expect(lines[1]).toMatch(/^"not,valid",,,"Invalid track ID format/);
+  });
+
+  test("should exit with 2 on usage errors", async () => {
+    expect((await run([])).code).toBe(2);
+    expect((await run(["-o", "xml", ID_A])).code).toBe(2);
+    expect((await run(["--concurrency", "0", ID_A])).code).toBe(2);
+    expect((await run(["--unknown", ID_A])).code).toBe(2);
+  });
+
+  test("should log to stderr with --debug", async () => {
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+
+    const { stdout, stderr } = await run(["--debug", ID_A]);
+
+    expect(stderr).toContain("[spotify-audio-previews DEBUG]");
+    expect(stdout).not.toContain("DEBUG");
+  });
+
+  test("should log errors by name and message", async () => {
+    mockFetchNetworkError("socket hang up");
+
+    const { stderr } = await run(["--debug", ID_A]);
+
+    expect(stderr).toContain("Error: socket hang up");
+    expect(stderr).not.toMatch(/ \{\}$/m);
+  });
+
+  test("should skip inputs recorded in the checkpoint file", async () => {
+    const checkpoint = join(dir, "checkpoint.ndjson");
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+    mockFetchErrorResponse(500, "Internal Server Error");
+
+    const first = await run([
+      "-c",
+      "1",
+      "--checkpoint",
+      checkpoint,
+      ID_A,
+      ID_B,
+    ]);
+
+    expect(first.code).toBe(1);
+    const recorded = (await readFile(checkpoint, "utf8")).trim().split("\n");
+    expect(recorded).toHaveLength(1);
+    expect(JSON.parse(recorded[0]).input).toBe(ID_A);
+
+    // Simulate a crash in the middle of writing a line
+    await writeFile(checkpoint, `${recorded[0]}\n{"input":"abc`);
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+
+    const second = await run([
+      "-o",
+      "ndjson",
+      "--checkpoint",
+      checkpoint,
+      ID_A,
+      ID_B,
+    ]);
+
+    expect(second.code).toBe(0);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(fetch).toHaveBeenLastCalledWith(
+      `https://open.spotify.com/embed/track/${ID_B}`
+    );
+    expect(
+      second.stdout
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line).input)
+    ).toEqual([ID_A, ID_B]);
+    expect((await run(["--checkpoint", checkpoint, ID_B])).code).toBe(0);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  configure,
+  getPreview,
+  LogLevel,
+  MemoryCacheStore,
+  SpotifyPreviewClient,
+} from "../src";
+import {
+  clearFetchMocks,
+  mockFetchResponse,
+  setupMockFetch,
+} from "./utils/fetch-mocks";
+import { buildEmbedHtml, trackEntity } from "./utils/embed-fixtures";
+
+setupMockFetch();
+
+const previewHtml = buildEmbedHtml(trackEntity);
+
+describe("SpotifyPreviewClient", () => {
+  beforeEach(() => {
+    clearFetchMocks();
+  });
+
+  afterEach(() => {
+    configure({ baseUrl: undefined, logger: { level: LogLevel.NONE } });
+  });
+
+  test("should look up previews with its own configuration", async () => {
+    mockFetchResponse(previewHtml);
+    const client = new SpotifyPreviewClient({
+      baseUrl: "http://localhost:4000",
+    });
+
+    const result = await client.getPreview("1234567890123456789012");
+
+    expect(result).toBe("https://p.scdn.co/mp3-preview/abc");
+    expect(fetch).toHaveBeenCalledWith(
+      "http://localhost:4000/embed/track/1234567890123456789012"
+    );
+  });
+
+  test("should keep the configuration of clients isolated", async () => {
+    const fetchA = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      text: () => Promise.resolve(previewHtml),
+    });
+    const fetchB = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      text: () => Promise.resolve(previewHtml),
+    });
+    const a = new SpotifyPreviewClient({ fetch: fetchA });
+    const b = new SpotifyPreviewClient({ fetch: fetchB });
+
+    a.configure({ headers: { "User-Agent": "a" } });
+    await a.getPreview("1234567890123456789012");
+    await b.getPreview("1234567890123456789012");
+
+    expect(fetchA).toHaveBeenCalledWith(
+      "https://open.spotify.com/embed/track/1234567890123456789012",
+      { headers: { "User-Agent": "a" } }
+    );
+    expect(fetchB).toHaveBeenCalledWith(
+      "https://open.spotify.com/embed/track/1234567890123456789012"
+    );
+  });
+
+  test("should keep loggers isolated from each other and the global logger", async () => {
+    const customA = vi.fn();
+    const customB = vi.fn();
+    const customGlobal = vi.fn();
+    const a = new SpotifyPreviewClient({
+      logger: { level: LogLevel.INFO, custom: customA },
+    });
+    new SpotifyPreviewClient({
+      logger: { level: LogLevel.DEBUG, custom: customB },
+    });
+    configure({ logger: { level: LogLevel.DEBUG, custom: customGlobal } });
+
+    mockFetchResponse(previewHtml);
+    await a.getPreview("1234567890123456789012");
+
+    expect(customA).toHaveBeenCalled();
+    expect(customA.mock.calls.every(([level]) => level !== "DEBUG")).toBe(true);
+    expect(customB).not.toHaveBeenCalled();
+    expect(customGlobal).not.toHaveBeenCalled();
+  });
+
+  test("should correlate the log records of each call", async () => {
+    const custom = vi.fn();
+    const client = new SpotifyPreviewClient({
+      logger: { level: LogLevel.DEBUG, custom },
+    });
+
+    mockFetchResponse(previewHtml);
+    mockFetchResponse(previewHtml);
+    await client.getPreview("1234567890123456789012");
+    await client.getPreview("1234567890123456789012", { requestId: "req-2" });
+
+    const records = custom.mock.calls.map(([, , , record]) => record);
+    const [first] = records;
+    const firstCall = records.filter((r) => r.requestId === first.requestId);
+    expect(first.requestId).toEqual(expect.any(String));
+    expect(records.filter((r) => r.requestId === "req-2")).toHaveLength(
+      records.length - firstCall.length
+    );
+    expect(
+      firstCall.find((r) => r.msg.startsWith("Found preview URL"))
+    ).toMatchObject({
+      trackId: "1234567890123456789012",
+      durationMs: expect.any(Number),
+      provider: "embed",
+    });
+  });
+
+  test("should not be affected by the global configuration", async () => {
+    configure({ baseUrl: "http://localhost:4000" });
+    mockFetchResponse(previewHtml);
+    mockFetchResponse(previewHtml);
+
+    await new SpotifyPreviewClient().getPreview("1234567890123456789012");
+    await getPreview("1234567890123456789012");
+
+    expect(fetch).toHaveBeenNthCalledWith(
+      1,
+      "https://open.spotify.com/embed/track/1234567890123456789012"
+    );
+    expect(fetch).toHaveBeenNthCalledWith(
+      2,
+      "http://localhost:4000/embed/track/1234567890123456789012"
+    );
+  });
+
+  test("should use a separate default cache store per client", async () => {
+    mockFetchResponse(previewHtml);
+    mockFetchResponse(previewHtml);
+    const a = new SpotifyPreviewClient({ cache: {} });
+    const b = new SpotifyPreviewClient({ cache: {} });
+
+    await a.getPreview("1234567890123456789012");
+    await a.getPreview("1234567890123456789012");
+    await b.getPreview("1234567890123456789012");
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test("should share an explicitly provided cache store", async () => {
+    mockFetchResponse(previewHtml);
+    const store = new MemoryCacheStore();
+    const a = new SpotifyPreviewClient({ cache: { store } });
+    const b = new SpotifyPreviewClient({ cache: { store } });
+
+    await a.getPreview("1234567890123456789012");
+    await b.getPreview("1234567890123456789012");
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
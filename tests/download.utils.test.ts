@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readFile, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  downloadPreview,
+  NoPreviewAvailableError,
+  PreviewDownloadError,
+  SpotifyTimeoutError,
+} from "../src";
+import { createAudioStream, isMp3Header } from "../src/utils/download.utils";
+import { Logger } from "../src/utils/logger.utils";
+import {
+  clearFetchMocks,
+  mockFetchResponse,
+  setupMockFetch,
+} from "./utils/fetch-mocks";
+import {
+  buildEmbedHtml,
+  noPreviewHtml,
+  trackEntity,
+} from "./utils/embed-fixtures";
+
+setupMockFetch();
+
+const log = new Logger();
+const TRACK_ID = "1234567890123456789012";
+const PREVIEW_URL = "https://p.scdn.co/mp3-preview/abc";
+const mp3 = new Uint8Array([0x49, 0x44, 0x33, 0x04, 0x00, 1, 2, 3, 4, 5]);
+
+/**
+ * Builds a stream that emits the given chunks.
+ */
+function streamOf(...chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+}
+
+/**
+ * Queues the embed page lookup followed by the audio response.
+ */
+function mockPreviewDownload(
+  body: BodyInit | null,
+  init: ResponseInit = { headers: { "Content-Type": "audio/mpeg" } }
+) {
+  mockFetchResponse(buildEmbedHtml(trackEntity));
+  (fetch as any).mockResolvedValueOnce(new Response(body, init));
+}
+
+describe("isMp3Header", () => {
+  it.each([
+    ["an ID3 tag", [0x49, 0x44, 0x33]],
+    ["an MPEG frame sync", [0xff, 0xfb, 0x90]],
+  ])("should accept %s", (_, bytes) => {
+    expect(isMp3Header(new Uint8Array(bytes))).toBe(true);
+  });
+
+  it.each([
+    ["HTML", [0x3c, 0x21, 0x44]],
+    ["an incomplete frame sync", [0xff, 0x0b]],
+    ["empty input", []],
+  ])("should reject %s", (_, bytes) => {
+    expect(isMp3Header(new Uint8Array(bytes))).toBe(false);
+  });
+});
+
+describe("createAudioStream", () => {
+  it("should check a header split across chunks", async () => {
+    const stream = createAudioStream(
+      streamOf(mp3.slice(0, 1), mp3.slice(1, 2), mp3.slice(2)),
+      null,
+      { url: PREVIEW_URL, status: 200, maxBytes: 100 },
+      log
+    );
+
+    const body = new Uint8Array(await new Response(stream).arrayBuffer());
+    expect(body).toEqual(mp3);
+  });
+
+  it("should fail once the size limit is exceeded", async () => {
+    const onSettled = vi.fn();
+    const stream = createAudioStream(
+      streamOf(mp3, mp3),
+      null,
+      { url: PREVIEW_URL, status: 200, maxBytes: 15, onSettled },
+      log
+    );
+
+    await expect(new Response(stream).arrayBuffer()).rejects.toThrow(
+      "exceeds the limit of 15 bytes"
+    );
+    expect(onSettled).toHaveBeenCalled();
+  });
+});
+
+describe("downloadPreview", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    clearFetchMocks();
+    dir = await mkdtemp(join(tmpdir(), "spotify-audio-previews-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should download the preview into a Buffer and report progress", async () => {
+    mockPreviewDownload(streamOf(mp3.slice(0, 4), mp3.slice(4)), {
+      headers: { "Content-Type": "audio/mpeg", "Content-Length": "10" },
+    });
+    const onProgress = vi.fn();
+
+    const buffer = await downloadPreview(TRACK_ID, {
+      to: "buffer",
+      onProgress,
+    });
+
+    expect(Buffer.isBuffer(buffer)).toBe(true);
+    expect(new Uint8Array(buffer)).toEqual(mp3);
+    expect(fetch).toHaveBeenLastCalledWith(PREVIEW_URL);
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { bytes: 4, totalBytes: 10 },
+      { bytes: 10, totalBytes: 10 },
+    ]);
+  });
+
+  it("should download the preview as a stream", async () => {
+    mockPreviewDownload(mp3);
+
+    const stream = await downloadPreview(TRACK_ID, { to: "stream" });
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(new Uint8Array(Buffer.concat(chunks))).toEqual(mp3);
+  });
+
+  it("should write the preview to a file", async () => {
+    const path = join(dir, "preview.mp3");
+    mockPreviewDownload(mp3);
+
+    const result = await downloadPreview(TRACK_ID, { to: path });
+
+    expect(result).toBe(path);
+    expect(new Uint8Array(await readFile(path))).toEqual(mp3);
+  });
+
+  it("should not leave a partial file behind when the download fails", async () => {
+    const path = join(dir, "preview.mp3");
+    mockPreviewDownload(new TextEncoder().encode("<html>Not audio</html>"), {
+      headers: {},
+    });
+
+    await expect(downloadPreview(TRACK_ID, { to: path })).rejects.toThrow(
+      PreviewDownloadError
+    );
+    await expect(stat(path)).rejects.toThrow();
+  });
+
+  it("should reject responses that are not audio with the HTTP status", async () => {
+    mockPreviewDownload("<html></html>", {
+      headers: { "Content-Type": "text/html" },
+    });
+
+    const error = await downloadPreview(TRACK_ID, { to: "buffer" }).catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(PreviewDownloadError);
+    expect(error.statusCode).toBe(200);
+    expect(error.url).toBe(PREVIEW_URL);
+    expect(error.message).toContain('"text/html"');
+  });
+
+  it("should reject unsuccessful responses with the HTTP status", async () => {
+    mockPreviewDownload(null, { status: 403 });
+
+    const error = await downloadPreview(TRACK_ID, { to: "buffer" }).catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(PreviewDownloadError);
+    expect(error.statusCode).toBe(403);
+  });
+
+  it("should reject previews larger than maxBytes announced by Content-Length", async () => {
+    mockPreviewDownload(mp3, {
+      headers: { "Content-Type": "audio/mpeg", "Content-Length": "10" },
+    });
+
+    await expect(
+      downloadPreview(TRACK_ID, { to: "buffer", maxBytes: 5 })
+    ).rejects.toThrow("exceeds the limit of 5 bytes");
+  });
+
+  it("should throw NoPreviewAvailableError when the track has no preview", async () => {
+    mockFetchResponse(noPreviewHtml);
+
+    await expect(
+      downloadPreview(TRACK_ID, { to: "buffer" })
+    ).rejects.toBeInstanceOf(NoPreviewAvailableError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should time out while the body is being downloaded", async () => {
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+    (fetch as any).mockImplementationOnce(
+      async (_url: string, init?: RequestInit) =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(mp3);
+              init?.signal?.addEventListener("abort", () =>
+                controller.error(init.signal!.reason)
+              );
+            },
+          }),
+          { headers: { "Content-Type": "audio/mpeg" } }
+        )
+    );
+
+    await expect(
+      downloadPreview(TRACK_ID, { to: "buffer", timeoutMs: 50 })
+    ).rejects.toBeInstanceOf(SpotifyTimeoutError);
+  });
+});
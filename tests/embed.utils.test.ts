@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { EmbedParseError } from "../src";
+import {
+  extractEmbedEntity,
+  extractPreviewUrl,
+  toCollectionPreviews,
+} from "../src/utils/embed.utils";
+import {
+  albumEntity,
+  buildEmbedHtml,
+  trackEntity,
+} from "./utils/embed-fixtures";
+
+describe("extractEmbedEntity", () => {
+  it("should extract the entity from the __NEXT_DATA__ page state", () => {
+    const html = buildEmbedHtml(trackEntity);
+    expect(extractEmbedEntity(html)).toEqual(trackEntity);
+  });
+
+  it("should throw EmbedParseError when there is no __NEXT_DATA__ script", () => {
+    expect(() => extractEmbedEntity("<html></html>")).toThrow(EmbedParseError);
+  });
+
+  it("should throw EmbedParseError when the page state is not valid JSON", () => {
+    const html = `<script id="__NEXT_DATA__" type="application/json">{not json</script>`;
+    const error = (() => {
+      try {
+        extractEmbedEntity(html);
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(EmbedParseError);
+    expect(error.strategy).toBe("next-data");
+    expect(error.message).toContain("invalid __NEXT_DATA__ JSON");
+  });
+
+  it("should throw EmbedParseError when the page state has no entity", () => {
+    const html = `<script id="__NEXT_DATA__" type="application/json">{"props":{}}</script>`;
+    expect(() => extractEmbedEntity(html)).toThrow(
+      "page state contains no entity"
+    );
+  });
+});
+
+describe("extractPreviewUrl", () => {
+  it("should extract the preview URL from the page state", () => {
+    const html = buildEmbedHtml(trackEntity);
+    expect(extractPreviewUrl(html)).toBe("https://p.scdn.co/mp3-preview/abc");
+  });
+
+  it("should not depend on whitespace or key order in the page state", () => {
+    const html = buildEmbedHtml({
+      ...trackEntity,
+      audioPreview: {
+        format: "MP3_96",
+        url: "https://p.scdn.co/mp3-preview/x",
+      },
+    });
+    expect(extractPreviewUrl(html)).toBe("https://p.scdn.co/mp3-preview/x");
+  });
+
+  it("should return null when the page state has no preview", () => {
+    const html = buildEmbedHtml({ ...trackEntity, audioPreview: undefined });
+    expect(extractPreviewUrl(html)).toBeNull();
+  });
+
+  it("should return null for non-https preview URLs", () => {
+    const html = buildEmbedHtml({
+      ...trackEntity,
+      audioPreview: { url: "http://p.scdn.co/mp3-preview/abc" },
+    });
+    expect(extractPreviewUrl(html)).toBeNull();
+  });
+
+  it("should fall back to the audioPreview regex when the page state is missing", () => {
+    const html = `<script>{"audioPreview": {"url": "https://p.scdn.co/mp3-preview/abc"}}</script>`;
+    expect(extractPreviewUrl(html)).toBe("https://p.scdn.co/mp3-preview/abc");
+  });
+
+  it("should throw EmbedParseError when every strategy fails", () => {
+    expect(() => extractPreviewUrl("<html></html>")).toThrow(EmbedParseError);
+  });
+});
+
+describe("toCollectionPreviews", () => {
+  it("should map the track list of the entity", () => {
+    const collection = toCollectionPreviews(
+      albumEntity,
+      "album",
+      "6XhjNHCyCDyyGJRM5mg40G"
+    );
+
+    expect(collection.name).toBe("Whenever You Need Somebody");
+    expect(collection.tracks.map((t) => t.previewUrl)).toEqual([
+      "https://p.scdn.co/mp3-preview/abc",
+      null,
+    ]);
+  });
+
+  it("should return a null trackId for non-track URIs", () => {
+    const collection = toCollectionPreviews(
+      {
+        name: "Mixed",
+        trackList: [{ uri: "spotify:episode:abc", title: "Ep" }],
+      },
+      "playlist",
+      "37i9dQZF1DXcBWIGoYBM5M"
+    );
+
+    expect(collection.tracks[0].trackId).toBeNull();
+  });
+
+  it("should throw EmbedParseError when the entity has no track list", () => {
+    expect(() =>
+      toCollectionPreviews({ name: "Empty" }, "album", "6XhjNHCyCDyyGJRM5mg40G")
+    ).toThrow(EmbedParseError);
+  });
+});
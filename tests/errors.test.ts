@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  InvalidTrackIdError,
+  NetworkError,
+  RegionRestrictedError,
+  SpotifyApiError,
+  SpotifyPreviewError,
+  SpotifyTimeoutError,
+} from "../src";
+
+describe("SpotifyPreviewError", () => {
+  it("should expose a stable code and retryability", () => {
+    expect(new InvalidTrackIdError("x")).toMatchObject({
+      code: "INVALID_TRACK_ID",
+      retryable: false,
+    });
+    expect(new SpotifyApiError("Failed", 503).retryable).toBe(true);
+    expect(new SpotifyApiError("Failed", 400).retryable).toBe(false);
+    expect(new RegionRestrictedError("Unavailable", 451).retryable).toBe(false);
+    expect(new SpotifyTimeoutError(100).retryable).toBe(true);
+  });
+
+  it("should serialize to JSON with its cause", () => {
+    const cause = new TypeError("fetch failed");
+    const error = new NetworkError("Failed to retrieve preview", { cause });
+    error.attempts = 2;
+
+    expect(JSON.parse(JSON.stringify(error))).toEqual({
+      name: "NetworkError",
+      code: "NETWORK_ERROR",
+      message: "Spotify API error: Failed to retrieve preview",
+      retryable: true,
+      attempts: 2,
+      cause: { name: "TypeError", message: "fetch failed" },
+    });
+    expect(
+      new SpotifyPreviewError("Outer", {
+        cause: new SpotifyApiError("Inner", 500),
+      }).toJSON().cause
+    ).toMatchObject({ code: "SPOTIFY_API_ERROR", statusCode: 500 });
+  });
+
+  it("should work without Error.captureStackTrace", () => {
+    const original = Error.captureStackTrace;
+    (Error as any).captureStackTrace = undefined;
+    try {
+      const error = new SpotifyApiError("Failed", 500);
+
+      expect(error).toBeInstanceOf(SpotifyApiError);
+      expect(error.name).toBe("SpotifyApiError");
+    } finally {
+      Error.captureStackTrace = original;
+    }
+  });
+});
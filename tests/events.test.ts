@@ -0,0 +1,238 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import {
+  getPreview,
+  getStats,
+  InvalidTrackIdError,
+  LogLevel,
+  off,
+  on,
+  SpotifyApiError,
+  SpotifyPreviewClient,
+} from "../src";
+import {
+  clearFetchMocks,
+  mockFetchErrorResponse,
+  mockFetchNetworkError,
+  mockFetchResponse,
+  setupMockFetch,
+} from "./utils/fetch-mocks";
+import {
+  buildEmbedHtml,
+  noPreviewHtml,
+  trackEntity,
+} from "./utils/embed-fixtures";
+
+setupMockFetch();
+
+const TRACK_ID = "1234567890123456789012";
+const PREVIEW_URL = "https://p.scdn.co/mp3-preview/abc";
+const previewHtml = buildEmbedHtml(trackEntity);
+
+describe("lifecycle events", () => {
+  beforeEach(() => {
+    clearFetchMocks();
+  });
+
+  test("should emit events from the top-level functions", async () => {
+    const events: string[] = [];
+    const listeners = {
+      request: () => events.push("request"),
+      response: () => events.push("response"),
+      preview: () => events.push("preview"),
+    };
+    on("request", listeners.request);
+    on("response", listeners.response);
+    on("preview", listeners.preview);
+
+    mockFetchResponse(previewHtml);
+    await getPreview(TRACK_ID);
+    off("request", listeners.request);
+    off("response", listeners.response);
+    off("preview", listeners.preview);
+    mockFetchResponse(previewHtml);
+    await getPreview(TRACK_ID);
+
+    expect(events).toEqual(["request", "response", "preview"]);
+    expect(getStats().lookups.preview).toBeGreaterThanOrEqual(2);
+  });
+
+  test("should correlate events with timing data", async () => {
+    const client = new SpotifyPreviewClient();
+    const request = vi.fn();
+    const response = vi.fn();
+    const preview = vi.fn();
+    client.on("request", request);
+    client.on("response", response);
+    client.on("preview", preview);
+
+    mockFetchResponse(previewHtml);
+    await client.getPreview(TRACK_ID, { requestId: "req-1" });
+
+    const context = { requestId: "req-1", trackId: TRACK_ID };
+    const url = `https://open.spotify.com/embed/track/${TRACK_ID}`;
+    expect(request).toHaveBeenCalledWith({ ...context, url, method: "GET" });
+    expect(response).toHaveBeenCalledWith({
+      ...context,
+      url,
+      method: "GET",
+      status: 200,
+      durationMs: expect.any(Number),
+    });
+    expect(preview).toHaveBeenCalledWith({
+      ...context,
+      previewUrl: PREVIEW_URL,
+      provider: "embed",
+      durationMs: expect.any(Number),
+    });
+  });
+
+  test("should emit retries, cache hits, missing previews and errors", async () => {
+    const onError = vi.fn();
+    const client = new SpotifyPreviewClient({
+      retry: { maxAttempts: 2, baseDelayMs: 0 },
+      cache: {},
+      on: { error: onError },
+    });
+    const retry = vi.fn();
+    const cacheHit = vi.fn();
+    const noPreview = vi.fn();
+    client.on("retry", retry);
+    client.once("cacheHit", cacheHit);
+    client.on("noPreview", noPreview);
+
+    mockFetchErrorResponse(503, "Service Unavailable");
+    mockFetchResponse(noPreviewHtml);
+    await client.getPreview(TRACK_ID);
+    await client.getPreview(TRACK_ID);
+    await client.getPreview(TRACK_ID);
+    await client.getPreviews(["invalid"]);
+
+    expect(retry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        trackId: TRACK_ID,
+        attempt: 1,
+        delayMs: 0,
+        error: expect.any(SpotifyApiError),
+      })
+    );
+    expect(cacheHit).toHaveBeenCalledTimes(1);
+    expect(cacheHit).toHaveBeenCalledWith(
+      expect.objectContaining({ trackId: TRACK_ID, previewUrl: null })
+    );
+    expect(noPreview).toHaveBeenCalledTimes(3);
+    // Cached results keep the provider that answered
+    expect(noPreview.mock.calls.map(([event]) => event.provider)).toEqual([
+      "embed",
+      "embed",
+      "embed",
+    ]);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        trackId: null,
+        error: expect.any(InvalidTrackIdError),
+      })
+    );
+  });
+
+  test("should not report thrown missing previews as errors", async () => {
+    const client = new SpotifyPreviewClient();
+    const error = vi.fn();
+    const noPreview = vi.fn();
+    client.on("error", error);
+    client.on("noPreview", noPreview);
+
+    mockFetchResponse(noPreviewHtml);
+    await expect(
+      client.getPreview(TRACK_ID, { throws: true })
+    ).rejects.toThrow();
+
+    expect(noPreview).toHaveBeenCalledTimes(1);
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  test("should isolate the lookup from failing listeners", async () => {
+    const custom = vi.fn();
+    const client = new SpotifyPreviewClient({
+      logger: { level: LogLevel.WARN, custom },
+    });
+    client.on("request", () => {
+      throw new Error("Listener failed");
+    });
+
+    mockFetchResponse(previewHtml);
+
+    expect(await client.getPreview(TRACK_ID)).toBe(PREVIEW_URL);
+    expect(custom).toHaveBeenCalledWith(
+      "WARN",
+      'Listener for "request" event failed',
+      expect.any(Error),
+      expect.anything()
+    );
+  });
+});
+
+describe("getStats", () => {
+  beforeEach(() => {
+    clearFetchMocks();
+  });
+
+  test("should count outcomes, responses and errors", async () => {
+    const client = new SpotifyPreviewClient({
+      retry: { maxAttempts: 2, baseDelayMs: 0, retryNetworkErrors: false },
+    });
+
+    mockFetchResponse(previewHtml);
+    mockFetchErrorResponse(500, "Internal Server Error");
+    mockFetchResponse(noPreviewHtml);
+    mockFetchNetworkError("Connection reset");
+    await client.getPreviews([TRACK_ID, TRACK_ID, "invalid"], {
+      concurrency: 1,
+    });
+    await client.getPreview(TRACK_ID).catch(() => {});
+
+    expect(client.getStats()).toEqual({
+      lookups: { total: 4, preview: 1, noPreview: 1, error: 2 },
+      cacheHits: 0,
+      requests: 4,
+      responses: { "200": 2, "500": 1, "network-error": 1 },
+      retries: 1,
+      errors: { InvalidTrackIdError: 1, NetworkError: 1 },
+      latency: {
+        lookup: expect.objectContaining({ count: 4 }),
+        request: expect.objectContaining({ count: 4 }),
+      },
+    });
+  });
+
+  test("should compute latency percentiles", async () => {
+    vi.useFakeTimers();
+    try {
+      const client = new SpotifyPreviewClient();
+      for (let i = 1; i <= 10; i++) {
+        (fetch as any).mockImplementationOnce(async () => {
+          await new Promise((resolve) => setTimeout(resolve, i * 10));
+          return {
+            ok: true,
+            status: 200,
+            headers: new Headers(),
+            text: async () => previewHtml,
+          };
+        });
+        const lookup = client.getPreview(TRACK_ID);
+        await vi.advanceTimersByTimeAsync(i * 10);
+        await lookup;
+      }
+
+      expect(client.getStats().latency.request).toEqual({
+        count: 10,
+        p50: 50,
+        p90: 90,
+        p95: 100,
+        p99: 100,
+        max: 100,
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -1,19 +1,56 @@
-import { getPreview } from "../src";
-import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import {
+  configure,
+  MemoryCacheStore,
+  getAlbumPreviews,
+  getArtistTopTrackPreviews,
+  getChapterPreview,
+  getEpisodePreview,
+  getPlaylistPreviews,
+  getPreview,
+  getPreviewAvailability,
+  getPreviewResult,
+  getPreviews,
+  getTrackInfo,
+  PreviewLookupResult,
+  resolveSpotifyReference,
+} from "../src";
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
 import {
   clearFetchMocks,
   mockFetchResponse,
   mockFetchErrorResponse,
   mockFetchNetworkError,
   mockFetchTimeout,
+  mockFetchHanging,
+  realFetch,
   restoreRealFetch,
   setupMockFetch,
 } from "./utils/fetch-mocks";
 import {
+  albumEntity,
+  buildEmbedHtml,
+  chapterEntity,
+  episodeEntity,
+  noPreviewHtml,
+  trackEntity,
+} from "./utils/embed-fixtures";
+import {
+  InvalidMarketError,
   InvalidTrackIdError,
   InvalidSpotifyUrlError,
   NoPreviewAvailableError,
   SpotifyApiError,
+  EmbedParseError,
+  InvalidSpotifyIdError,
+  NetworkError,
+  RateLimitedError,
+  RegionRestrictedError,
+  SpotifyAbortError,
+  SpotifyPreviewError,
+  SpotifyTimeoutError,
+  TrackNotFoundError,
 } from "../src";
 
 // Set up the mock fetch
@@ -57,7 +94,7 @@ describe("getPreview", () => {
     });
 
     test("should return null when no preview URL is found", async () => {
-      mockFetchResponse('{"someOtherData": "value"}');
+      mockFetchResponse(noPreviewHtml);
 
       const result = await getPreview("1234567890123456789012");
 
@@ -65,7 +102,7 @@ describe("getPreview", () => {
     });
 
     test("should throw NoPreviewAvailableError when throws option is true and no preview URL is found", async () => {
-      mockFetchResponse('{"someOtherData": "value"}');
+      mockFetchResponse(noPreviewHtml);
 
       const error = await getPreview("1234567890123456789012", {
         throws: true,
@@ -94,7 +131,27 @@ describe("getPreview", () => {
       expect(result).toBe(mockPreviewUrl);
     });
 
+    test("should prefer the embedded page state over the raw audioPreview JSON", async () => {
+      mockFetchResponse(buildEmbedHtml(trackEntity));
+
+      const result = await getPreview("1234567890123456789012");
+
+      expect(result).toBe("https://p.scdn.co/mp3-preview/abc");
+    });
+
     describe("Error Handling", () => {
+      test("should throw EmbedParseError when the embed page cannot be parsed", async () => {
+        mockFetchResponse("<html><body>Something changed</body></html>");
+
+        const error = await getPreview("1234567890123456789012").catch(
+          (e) => e
+        );
+
+        expect(error).toBeInstanceOf(EmbedParseError);
+        expect(error).not.toBeInstanceOf(NoPreviewAvailableError);
+        expect(error.strategy).toBe("audio-preview-regex");
+      });
+
       test("should throw InvalidTrackIdError for invalid track ID", async () => {
         const error = await getPreview("invalid-id").catch((e) => e);
 
@@ -148,6 +205,34 @@ describe("getPreview", () => {
         expect(error.statusCode).toBe(500);
       });
 
+      test("should retry transient errors when a retry policy is set", async () => {
+        mockFetchErrorResponse(503, "Service Unavailable");
+        mockFetchErrorResponse(429, "Too Many Requests", {
+          "Retry-After": "0",
+        });
+        mockFetchResponse(buildEmbedHtml(trackEntity));
+
+        const result = await getPreview("1234567890123456789012", {
+          retry: { maxAttempts: 3, baseDelayMs: 0 },
+        });
+
+        expect(result).toBe("https://p.scdn.co/mp3-preview/abc");
+        expect(fetch).toHaveBeenCalledTimes(3);
+      });
+
+      test("should attach the attempt count to the final error", async () => {
+        mockFetchErrorResponse(500, "Server Error");
+        mockFetchErrorResponse(500, "Server Error");
+
+        const error = await getPreview("1234567890123456789012", {
+          retry: { maxAttempts: 2, baseDelayMs: 0 },
+        }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(SpotifyApiError);
+        expect(error.statusCode).toBe(500);
+        expect(error.attempts).toBe(2);
+      });
+
       test("should throw SpotifyApiError for 429 rate limit response", async () => {
         mockFetchErrorResponse(429, "Too Many Requests");
 
@@ -159,6 +244,36 @@ describe("getPreview", () => {
         expect(error.message).toContain("Failed to fetch track preview data");
         expect(error.statusCode).toBe(429);
       });
+
+      test("should throw specific errors for missing tracks, rate limits and network failures", async () => {
+        mockFetchErrorResponse(404, "Not Found");
+        mockFetchErrorResponse(429, "Too Many Requests", {
+          "Retry-After": "2",
+        });
+        mockFetchNetworkError("Connection reset");
+
+        const [notFound, rateLimited, network] = await Promise.all(
+          [1, 2, 3].map(() =>
+            getPreview("1234567890123456789012").catch((e) => e)
+          )
+        );
+
+        expect(notFound).toBeInstanceOf(TrackNotFoundError);
+        expect(notFound).toMatchObject({
+          code: "TRACK_NOT_FOUND",
+          trackId: "1234567890123456789012",
+          retryable: false,
+        });
+        expect(rateLimited).toBeInstanceOf(RateLimitedError);
+        expect(rateLimited).toMatchObject({
+          code: "RATE_LIMITED",
+          retryAfterMs: 2000,
+          retryable: true,
+        });
+        expect(network).toBeInstanceOf(NetworkError);
+        expect(network.cause).toBeInstanceOf(Error);
+        expect(network.cause.message).toBe("Connection reset");
+      });
     });
   });
 
@@ -217,3 +332,985 @@ describe("getPreview", () => {
     }
   );
 });
+
+describe("getPreviews", () => {
+  beforeEach(() => {
+    clearFetchMocks();
+  });
+
+  test("should return one result per input in input order", async () => {
+    mockFetchResponse(`{"audioPreview": {"url": "https://example.com/a.mp3"}}`);
+    mockFetchResponse(noPreviewHtml);
+
+    const results = await getPreviews(
+      [
+        "1234567890123456789012",
+        "https://open.spotify.com/album/7tgTOUXm74GKA12wsQIUPu",
+        "https://open.spotify.com/track/2234567890123456789012",
+      ],
+      { concurrency: 1 }
+    );
+
+    expect(results).toHaveLength(3);
+    expect(results[0]).toEqual({
+      input: "1234567890123456789012",
+      trackId: "1234567890123456789012",
+      previewUrl: "https://example.com/a.mp3",
+      provider: "embed",
+      source: "spotify",
+      matchConfidence: 1,
+      market: null,
+      error: null,
+    });
+    expect(results[1].trackId).toBeNull();
+    expect(results[1].previewUrl).toBeNull();
+    expect(results[1].error).toBeInstanceOf(InvalidSpotifyUrlError);
+    expect(results[2]).toEqual({
+      input: "https://open.spotify.com/track/2234567890123456789012",
+      trackId: "2234567890123456789012",
+      previewUrl: null,
+      provider: "embed",
+      source: null,
+      matchConfidence: null,
+      market: null,
+      error: null,
+    });
+  });
+
+  test("should report per-item errors without rejecting the batch", async () => {
+    mockFetchErrorResponse(500, "Server Error");
+    mockFetchResponse(noPreviewHtml);
+
+    const results = await getPreviews(
+      ["1234567890123456789012", "invalid-id", "2234567890123456789012"],
+      { throws: true, concurrency: 1 }
+    );
+
+    expect(results[0].error).toBeInstanceOf(SpotifyApiError);
+    expect(results[1].error).toBeInstanceOf(InvalidTrackIdError);
+    expect(results[2].error).toBeInstanceOf(NoPreviewAvailableError);
+  });
+
+  test("should not exceed the configured concurrency", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    (fetch as any).mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return {
+        ok: true,
+        status: 200,
+        text: () =>
+          Promise.resolve(
+            `{"audioPreview": {"url": "https://example.com/a.mp3"}}`
+          ),
+      };
+    });
+
+    const tracks = Array.from({ length: 10 }, (_, i) =>
+      `${i}`.padStart(22, "a")
+    );
+    const results = await getPreviews(tracks, { concurrency: 3 });
+
+    expect(maxInFlight).toBe(3);
+    expect(results.every((r) => r.previewUrl !== null)).toBe(true);
+
+    (fetch as any).mockReset();
+  });
+
+  test("should report progress with completed and total counts", async () => {
+    mockFetchResponse(noPreviewHtml);
+    mockFetchResponse(noPreviewHtml);
+    const onProgress = vi.fn();
+
+    await getPreviews(["1234567890123456789012", "2234567890123456789012"], {
+      onProgress,
+    });
+
+    expect(onProgress).toHaveBeenCalledTimes(2);
+    expect(onProgress.mock.calls[0][0]).toMatchObject({
+      completed: 1,
+      total: 2,
+    });
+    expect(onProgress.mock.calls[1][0]).toMatchObject({
+      completed: 2,
+      total: 2,
+    });
+  });
+
+  test("should return an empty array for an empty input", async () => {
+    expect(await getPreviews([])).toEqual([]);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("getPreviewResult", () => {
+  beforeEach(() => {
+    clearFetchMocks();
+  });
+
+  /**
+   * Describes a result; fails to compile if a failure reason is not handled.
+   */
+  function describeResult(result: PreviewLookupResult): string {
+    if (result.ok) return `preview ${result.previewUrl}`;
+    switch (result.reason) {
+      case "no-preview":
+        return `no preview for ${result.error.trackId}`;
+      case "invalid-input":
+      case "not-found":
+      case "region-restricted":
+      case "rate-limited":
+      case "network-error":
+      case "api-error":
+      case "parse-error":
+      case "timeout":
+      case "aborted":
+      case "unknown":
+        return `${result.reason}: ${result.error.code}`;
+      default: {
+        const unhandled: never = result;
+        return unhandled;
+      }
+    }
+  }
+
+  test("should return the preview with the time it was fetched", async () => {
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+
+    const result = await getPreviewResult("1234567890123456789012");
+
+    expect(result).toEqual({
+      ok: true,
+      trackId: "1234567890123456789012",
+      previewUrl: "https://p.scdn.co/mp3-preview/abc",
+      provider: "embed",
+      source: "spotify",
+      matchConfidence: 1,
+      market: null,
+      fetchedAt: expect.any(Date),
+    });
+    expect(describeResult(result)).toBe(
+      "preview https://p.scdn.co/mp3-preview/abc"
+    );
+  });
+
+  test("should return failures with their reason instead of throwing", async () => {
+    mockFetchResponse(noPreviewHtml);
+    mockFetchErrorResponse(404, "Not Found");
+    mockFetchErrorResponse(500, "Server Error");
+    mockFetchResponse("<html>Not an embed page</html>");
+
+    const results = [];
+    for (const input of [
+      "1234567890123456789012",
+      "invalid",
+      "1234567890123456789012",
+      "1234567890123456789012",
+      "1234567890123456789012",
+    ]) {
+      results.push(await getPreviewResult(input));
+    }
+
+    expect(results.map(describeResult)).toEqual([
+      "no preview for 1234567890123456789012",
+      "invalid-input: INVALID_TRACK_ID",
+      "not-found: TRACK_NOT_FOUND",
+      "api-error: SPOTIFY_API_ERROR",
+      "parse-error: EMBED_PARSE_FAILED",
+    ]);
+    expect(results[1]).toMatchObject({ ok: false, trackId: null });
+    expect(results[2]).toMatchObject({
+      ok: false,
+      trackId: "1234567890123456789012",
+      error: expect.any(TrackNotFoundError),
+    });
+  });
+});
+
+describe("getTrackInfo", () => {
+  beforeEach(() => {
+    clearFetchMocks();
+  });
+
+  test("should extract track metadata from the embed page", async () => {
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+
+    const info = await getTrackInfo(
+      "https://open.spotify.com/track/1234567890123456789012"
+    );
+
+    expect(fetch).toHaveBeenCalledWith(
+      "https://open.spotify.com/embed/track/1234567890123456789012"
+    );
+    expect(info).toEqual({
+      trackId: "1234567890123456789012",
+      title: "Never Gonna Give You Up",
+      artists: [
+        { name: "Rick Astley", uri: "spotify:artist:0gxyHStUsqpMadRV0Di1Qt" },
+      ],
+      album: null,
+      durationMs: 213573,
+      explicit: false,
+      releaseDate: "1987-11-12T00:00:00Z",
+      isrc: null,
+      coverArt: [
+        { url: "https://i.scdn.co/image/large", width: 640, height: 640 },
+        { url: "https://i.scdn.co/image/small", width: 64, height: 64 },
+      ],
+      previewUrl: "https://p.scdn.co/mp3-preview/abc",
+    });
+  });
+
+  test("should return a null previewUrl when the track has no preview", async () => {
+    const { audioPreview, ...entity } = trackEntity;
+    mockFetchResponse(
+      buildEmbedHtml({ ...entity, album: { name: "Whenever" } })
+    );
+
+    const info = await getTrackInfo("1234567890123456789012");
+
+    expect(info.previewUrl).toBeNull();
+    expect(info.album).toBe("Whenever");
+  });
+
+  test("should throw InvalidTrackIdError for invalid track ID", async () => {
+    const error = await getTrackInfo("invalid-id").catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidTrackIdError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  test("should throw SpotifyApiError for non-OK responses", async () => {
+    mockFetchErrorResponse(404, "Not Found");
+
+    const error = await getTrackInfo("1234567890123456789012").catch((e) => e);
+
+    expect(error).toBeInstanceOf(SpotifyApiError);
+    expect(error.statusCode).toBe(404);
+  });
+
+  test("should throw EmbedParseError when the page state is missing", async () => {
+    mockFetchResponse("<html></html>");
+
+    const error = await getTrackInfo("1234567890123456789012").catch((e) => e);
+
+    expect(error).toBeInstanceOf(EmbedParseError);
+    expect(error.strategy).toBe("next-data");
+  });
+});
+
+describe("collection previews", () => {
+  beforeEach(() => {
+    clearFetchMocks();
+  });
+
+  test("should return the album tracks with their preview URLs", async () => {
+    mockFetchResponse(buildEmbedHtml(albumEntity));
+
+    const album = await getAlbumPreviews(
+      "https://open.spotify.com/album/6XhjNHCyCDyyGJRM5mg40G?si=abc"
+    );
+
+    expect(fetch).toHaveBeenCalledWith(
+      "https://open.spotify.com/embed/album/6XhjNHCyCDyyGJRM5mg40G"
+    );
+    expect(album.type).toBe("album");
+    expect(album.id).toBe("6XhjNHCyCDyyGJRM5mg40G");
+    expect(album.name).toBe("Whenever You Need Somebody");
+    expect(album.tracks).toEqual([
+      {
+        trackId: "1234567890123456789012",
+        title: "Never Gonna Give You Up",
+        artists: "Rick Astley",
+        durationMs: 213573,
+        explicit: false,
+        previewUrl: "https://p.scdn.co/mp3-preview/abc",
+      },
+      {
+        trackId: "2234567890123456789012",
+        title: "Whenever You Need Somebody",
+        artists: "Rick Astley",
+        durationMs: 234000,
+        explicit: true,
+        previewUrl: null,
+      },
+    ]);
+  });
+
+  test("should fetch the playlist and artist embed pages", async () => {
+    mockFetchResponse(buildEmbedHtml({ ...albumEntity, type: "playlist" }));
+    mockFetchResponse(buildEmbedHtml({ ...albumEntity, type: "artist" }));
+
+    const playlist = await getPlaylistPreviews("37i9dQZF1DXcBWIGoYBM5M");
+    const artist = await getArtistTopTrackPreviews(
+      "https://open.spotify.com/artist/0gxyHStUsqpMadRV0Di1Qt"
+    );
+
+    expect(fetch).toHaveBeenNthCalledWith(
+      1,
+      "https://open.spotify.com/embed/playlist/37i9dQZF1DXcBWIGoYBM5M"
+    );
+    expect(fetch).toHaveBeenNthCalledWith(
+      2,
+      "https://open.spotify.com/embed/artist/0gxyHStUsqpMadRV0Di1Qt"
+    );
+    expect(playlist.type).toBe("playlist");
+    expect(artist.type).toBe("artist");
+    expect(artist.tracks).toHaveLength(2);
+  });
+
+  test("should throw InvalidSpotifyUrlError for a URL of another type", async () => {
+    const error = await getAlbumPreviews(
+      "https://open.spotify.com/track/1234567890123456789012"
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidSpotifyUrlError);
+    expect(error.message).toContain('"/album/"');
+  });
+
+  test("should throw InvalidSpotifyIdError for an invalid ID", async () => {
+    const error = await getPlaylistPreviews("invalid-id").catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidSpotifyIdError);
+    expect(error).not.toBeInstanceOf(InvalidTrackIdError);
+    expect(error.message).toContain("Invalid playlist ID format");
+  });
+
+  test("should throw EmbedParseError when the entity has no track list", async () => {
+    mockFetchResponse(buildEmbedHtml({ type: "album", name: "Empty" }));
+
+    const error = await getAlbumPreviews("6XhjNHCyCDyyGJRM5mg40G").catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(EmbedParseError);
+  });
+
+  test("should throw SpotifyApiError for non-OK responses", async () => {
+    mockFetchErrorResponse(404, "Not Found");
+
+    const error = await getAlbumPreviews("6XhjNHCyCDyyGJRM5mg40G").catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(SpotifyApiError);
+    expect(error.message).toContain("Failed to fetch album preview data");
+    expect(error.statusCode).toBe(404);
+  });
+});
+
+describe("episode and chapter previews", () => {
+  beforeEach(() => {
+    clearFetchMocks();
+  });
+
+  test("should return the episode preview with its show", async () => {
+    mockFetchResponse(buildEmbedHtml(episodeEntity));
+
+    const episode = await getEpisodePreview(
+      "https://open.spotify.com/episode/512ojhOuo1ktJprKbVcKyQ?si=abc"
+    );
+
+    expect(fetch).toHaveBeenCalledWith(
+      "https://open.spotify.com/embed/episode/512ojhOuo1ktJprKbVcKyQ"
+    );
+    expect(episode).toEqual({
+      type: "episode",
+      id: "512ojhOuo1ktJprKbVcKyQ",
+      title: "The Making of a Hit",
+      showName: "Song Exploder",
+      durationMs: 1254000,
+      previewUrl:
+        "https://podz-content.spotifycdn.com/audio/clips/abc/clip.mp3",
+    });
+  });
+
+  test("should return the chapter preview with its audiobook", async () => {
+    mockFetchResponse(buildEmbedHtml(chapterEntity));
+
+    const chapter = await getChapterPreview(
+      "spotify:chapter:0D5wENdkdwbqlrHoaJ9g29"
+    );
+
+    expect(fetch).toHaveBeenCalledWith(
+      "https://open.spotify.com/embed/chapter/0D5wENdkdwbqlrHoaJ9g29"
+    );
+    expect(chapter).toEqual({
+      type: "chapter",
+      id: "0D5wENdkdwbqlrHoaJ9g29",
+      title: "Chapter 1",
+      showName: "Pride and Prejudice",
+      durationMs: 845000,
+      previewUrl: "https://p.scdn.co/mp3-preview/chapter",
+    });
+  });
+
+  test("should return a null preview URL or throw with throws", async () => {
+    const noClipHtml = buildEmbedHtml({
+      ...episodeEntity,
+      audioPreview: undefined,
+    });
+    mockFetchResponse(noClipHtml);
+    mockFetchResponse(noClipHtml);
+
+    const episode = await getEpisodePreview("512ojhOuo1ktJprKbVcKyQ");
+    const error = await getEpisodePreview("512ojhOuo1ktJprKbVcKyQ", {
+      throws: true,
+    }).catch((e) => e);
+
+    expect(episode.previewUrl).toBeNull();
+    expect(error).toBeInstanceOf(NoPreviewAvailableError);
+    expect(error.message).toContain('episode ID: "512ojhOuo1ktJprKbVcKyQ"');
+  });
+
+  test("should reject IDs and URLs of another type", async () => {
+    const invalidId = await getChapterPreview("invalid-id").catch((e) => e);
+    const trackUrl = await getEpisodePreview(
+      "https://open.spotify.com/track/1234567890123456789012"
+    ).catch((e) => e);
+
+    expect(invalidId).toBeInstanceOf(InvalidSpotifyIdError);
+    expect(invalidId.message).toContain("Invalid chapter ID format");
+    expect(trackUrl).toBeInstanceOf(InvalidSpotifyUrlError);
+    expect(trackUrl.message).toContain('"/episode/"');
+  });
+
+  test("should throw SpotifyApiError for non-OK responses", async () => {
+    mockFetchErrorResponse(500, "Internal Server Error");
+
+    const error = await getChapterPreview("0D5wENdkdwbqlrHoaJ9g29").catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(SpotifyApiError);
+    expect(error.message).toContain("Failed to fetch chapter preview data");
+    expect(error.statusCode).toBe(500);
+  });
+});
+
+describe("preview cache", () => {
+  const previewHtml = buildEmbedHtml(trackEntity);
+
+  beforeEach(() => {
+    clearFetchMocks();
+  });
+
+  afterEach(() => {
+    configure({ cache: false });
+  });
+
+  test("should serve repeated lookups from the cache", async () => {
+    const store = new MemoryCacheStore();
+    mockFetchResponse(previewHtml);
+
+    const first = await getPreview("1234567890123456789012", {
+      cache: { store },
+    });
+    const second = await getPreview("1234567890123456789012", {
+      cache: { store },
+    });
+
+    expect(first).toBe("https://p.scdn.co/mp3-preview/abc");
+    expect(second).toBe(first);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("should still throw NoPreviewAvailableError for cached no-preview results", async () => {
+    const store = new MemoryCacheStore();
+    mockFetchResponse(noPreviewHtml);
+
+    const result = await getPreview("1234567890123456789012", {
+      cache: { store },
+    });
+    expect(result).toBeNull();
+
+    const error = await getPreview("1234567890123456789012", {
+      cache: { store },
+      throws: true,
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(NoPreviewAvailableError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("should deduplicate concurrent lookups of the same track", async () => {
+    mockFetchResponse(previewHtml);
+    configure({ cache: { store: new MemoryCacheStore() } });
+
+    const results = await getPreviews([
+      "1234567890123456789012",
+      "https://open.spotify.com/track/1234567890123456789012",
+    ]);
+
+    expect(results.map((r) => r.previewUrl)).toEqual([
+      "https://p.scdn.co/mp3-preview/abc",
+      "https://p.scdn.co/mp3-preview/abc",
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("should not fail joined lookups when the first caller aborts", async () => {
+    const store = new MemoryCacheStore();
+    let respond: (response: unknown) => void = () => {};
+    (fetch as any).mockImplementationOnce(
+      () => new Promise((resolve) => (respond = resolve))
+    );
+    const controller = new AbortController();
+
+    const first = getPreview("1234567890123456789012", {
+      cache: { store },
+      signal: controller.signal,
+    }).catch((e) => e);
+    const second = getPreview("1234567890123456789012", { cache: { store } });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+    controller.abort();
+    respond({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      text: async () => previewHtml,
+    });
+
+    expect(await first).toBeInstanceOf(SpotifyAbortError);
+    expect(await second).toBe("https://p.scdn.co/mp3-preview/abc");
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("should bypass the global cache when cache is false", async () => {
+    configure({ cache: { store: new MemoryCacheStore() } });
+    mockFetchResponse(previewHtml);
+    mockFetchResponse(previewHtml);
+
+    await getPreview("1234567890123456789012");
+    await getPreview("1234567890123456789012", { cache: false });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("markets and locales", () => {
+  const previewHtml = buildEmbedHtml(trackEntity);
+  const TRACK_ID = "1234567890123456789012";
+
+  beforeEach(() => {
+    clearFetchMocks();
+  });
+
+  afterEach(() => {
+    configure({ market: undefined, locale: undefined, cache: false });
+  });
+
+  test("should send the market and locale with the request", async () => {
+    mockFetchResponse(previewHtml);
+
+    const result = await getPreviewResult(TRACK_ID, {
+      market: "de",
+      locale: "de-DE",
+    });
+
+    expect(fetch).toHaveBeenCalledWith(
+      `https://open.spotify.com/embed/track/${TRACK_ID}?market=DE`,
+      { headers: { "Accept-Language": "de-DE" } }
+    );
+    expect(result).toMatchObject({ ok: true, market: "DE" });
+  });
+
+  test("should use the configured market unless overridden", async () => {
+    configure({ market: "JP" });
+    mockFetchResponse(previewHtml);
+    mockFetchResponse(previewHtml);
+
+    const [configured] = await getPreviews([TRACK_ID]);
+    const [overridden] = await getPreviews([TRACK_ID], { market: "BR" });
+
+    expect(configured.market).toBe("JP");
+    expect(overridden.market).toBe("BR");
+    expect(fetch).toHaveBeenNthCalledWith(
+      2,
+      `https://open.spotify.com/embed/track/${TRACK_ID}?market=BR`
+    );
+  });
+
+  test("should cache previews separately per market", async () => {
+    const store = new MemoryCacheStore();
+    mockFetchResponse(previewHtml);
+    mockFetchResponse(noPreviewHtml);
+
+    const us = await getPreview(TRACK_ID, { market: "US", cache: { store } });
+    const de = await getPreview(TRACK_ID, { market: "DE", cache: { store } });
+    const usAgain = await getPreview(TRACK_ID, {
+      market: "us",
+      cache: { store },
+    });
+
+    expect(us).toBe("https://p.scdn.co/mp3-preview/abc");
+    expect(de).toBeNull();
+    expect(usAgain).toBe(us);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test("should report the availability of a preview per market", async () => {
+    mockFetchResponse(previewHtml);
+    mockFetchResponse(noPreviewHtml);
+    mockFetchErrorResponse(451, "Unavailable For Legal Reasons");
+
+    const availability = await getPreviewAvailability(
+      `spotify:track:${TRACK_ID}`,
+      ["us", "DE", "KP"],
+      { concurrency: 1 }
+    );
+
+    expect(availability.trackId).toBe(TRACK_ID);
+    expect(availability.markets).toEqual([
+      {
+        market: "US",
+        available: true,
+        previewUrl: "https://p.scdn.co/mp3-preview/abc",
+        restricted: false,
+        error: null,
+      },
+      {
+        market: "DE",
+        available: false,
+        previewUrl: null,
+        restricted: false,
+        error: null,
+      },
+      {
+        market: "KP",
+        available: false,
+        previewUrl: null,
+        restricted: true,
+        error: expect.any(RegionRestrictedError),
+      },
+    ]);
+    expect(availability.markets[2].error).toMatchObject({ market: "KP" });
+    expect(fetch).toHaveBeenLastCalledWith(
+      `https://open.spotify.com/embed/track/${TRACK_ID}?market=KP`
+    );
+  });
+
+  test("should reject markets that are not country codes", async () => {
+    const error = await getPreview(TRACK_ID, { market: "us&foo=bar" }).catch(
+      (e) => e
+    );
+    const result = await getPreviewResult(TRACK_ID, { market: "USA" });
+
+    expect(error).toBeInstanceOf(InvalidMarketError);
+    expect(error).toMatchObject({
+      code: "INVALID_MARKET",
+      market: "us&foo=bar",
+    });
+    expect(result).toMatchObject({ ok: false, reason: "invalid-input" });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("transport", () => {
+  beforeEach(() => {
+    clearFetchMocks();
+  });
+
+  afterEach(() => {
+    configure({ fetch: undefined, headers: undefined, baseUrl: undefined });
+  });
+
+  test("should send requests through a custom fetch with custom headers", async () => {
+    const customFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      text: () => Promise.resolve(buildEmbedHtml(trackEntity)),
+    });
+
+    const result = await getPreview("1234567890123456789012", {
+      fetch: customFetch,
+      headers: { "User-Agent": "my-app/1.0" },
+    });
+
+    expect(result).toBe("https://p.scdn.co/mp3-preview/abc");
+    expect(fetch).not.toHaveBeenCalled();
+    expect(customFetch).toHaveBeenCalledWith(
+      "https://open.spotify.com/embed/track/1234567890123456789012",
+      { headers: { "User-Agent": "my-app/1.0" } }
+    );
+  });
+
+  test("should merge global and per-call headers", async () => {
+    configure({
+      headers: { "User-Agent": "my-app/1.0", "Accept-Language": "en" },
+    });
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+
+    await getTrackInfo("1234567890123456789012", {
+      headers: { "Accept-Language": "de" },
+    });
+
+    expect(fetch).toHaveBeenCalledWith(
+      "https://open.spotify.com/embed/track/1234567890123456789012",
+      { headers: { "User-Agent": "my-app/1.0", "Accept-Language": "de" } }
+    );
+  });
+
+  test("should use the configured base URL", async () => {
+    configure({ baseUrl: "http://localhost:1234/" });
+    mockFetchResponse(buildEmbedHtml(albumEntity));
+
+    await getAlbumPreviews("6XhjNHCyCDyyGJRM5mg40G");
+
+    expect(fetch).toHaveBeenCalledWith(
+      "http://localhost:1234/embed/album/6XhjNHCyCDyyGJRM5mg40G"
+    );
+  });
+
+  describe("local stand-in server", () => {
+    let server: Server;
+    let baseUrl: string;
+    const requests: { url?: string; userAgent?: string }[] = [];
+
+    beforeEach(async () => {
+      requests.length = 0;
+      server = createServer((req, res) => {
+        requests.push({ url: req.url, userAgent: req.headers["user-agent"] });
+        res.writeHead(200, { "Content-Type": "text/html" });
+        res.end(buildEmbedHtml(trackEntity));
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    test("should fetch embed pages from the stand-in server", async () => {
+      const result = await getPreview("1234567890123456789012", {
+        fetch: realFetch,
+        baseUrl,
+        headers: { "User-Agent": "integration-test" },
+      });
+
+      expect(result).toBe("https://p.scdn.co/mp3-preview/abc");
+      expect(requests).toEqual([
+        {
+          url: "/embed/track/1234567890123456789012",
+          userAgent: "integration-test",
+        },
+      ]);
+    });
+  });
+});
+
+describe("timeouts and cancellation", () => {
+  beforeEach(() => {
+    clearFetchMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("should throw SpotifyTimeoutError when the request exceeds timeoutMs", async () => {
+    vi.useFakeTimers();
+    mockFetchHanging();
+
+    const promise = getPreview("1234567890123456789012", {
+      timeoutMs: 1000,
+    }).catch((e) => e);
+    await vi.advanceTimersByTimeAsync(1000);
+    const error = await promise;
+
+    expect(error).toBeInstanceOf(SpotifyTimeoutError);
+    expect(error).toBeInstanceOf(SpotifyPreviewError);
+    expect(error.timeoutMs).toBe(1000);
+    expect((fetch as any).mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+  });
+
+  test("should bound short link resolution and the lookup with one timeout", async () => {
+    vi.useFakeTimers();
+    (fetch as any).mockImplementationOnce(
+      () =>
+        new Promise((resolve) =>
+          setTimeout(
+            () =>
+              resolve({
+                ok: false,
+                status: 302,
+                headers: new Headers({
+                  Location:
+                    "https://open.spotify.com/track/1234567890123456789012",
+                }),
+              }),
+            600
+          )
+        )
+    );
+    mockFetchHanging();
+
+    const promise = getPreview("https://spotify.link/abc", {
+      timeoutMs: 1000,
+    }).catch((e) => e);
+    await vi.advanceTimersByTimeAsync(1000);
+    const error = await promise;
+
+    expect(error).toBeInstanceOf(SpotifyTimeoutError);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test("should throw SpotifyAbortError when the signal is aborted", async () => {
+    mockFetchHanging();
+    const controller = new AbortController();
+
+    const promise = getTrackInfo("1234567890123456789012", {
+      signal: controller.signal,
+    }).catch((e) => e);
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+    controller.abort();
+    const error = await promise;
+
+    expect(error).toBeInstanceOf(SpotifyAbortError);
+    expect(error).toBeInstanceOf(SpotifyPreviewError);
+  });
+
+  test("should not fetch when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await getPreview("1234567890123456789012", {
+      signal: controller.signal,
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(SpotifyAbortError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  test("should cancel the delay between retries", async () => {
+    mockFetchErrorResponse(503, "Service Unavailable");
+    const controller = new AbortController();
+
+    const promise = getPreview("1234567890123456789012", {
+      signal: controller.signal,
+      retry: { baseDelayMs: 60000 },
+    }).catch((e) => e);
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+    controller.abort();
+    const error = await promise;
+
+    expect(error).toBeInstanceOf(SpotifyAbortError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("should report remaining batch items as aborted", async () => {
+    mockFetchResponse(noPreviewHtml);
+    const controller = new AbortController();
+
+    const results = await getPreviews(
+      ["1234567890123456789012", "2234567890123456789012"],
+      {
+        concurrency: 1,
+        signal: controller.signal,
+        onProgress: () => controller.abort(),
+      }
+    );
+
+    expect(results[0].error).toBeNull();
+    expect(results[1].error).toBeInstanceOf(SpotifyAbortError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Spotify references", () => {
+  beforeEach(() => {
+    clearFetchMocks();
+  });
+
+  test("should accept URIs and localized URLs in getPreview", async () => {
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+
+    await getPreview("spotify:track:1234567890123456789012");
+    await getPreview(
+      "https://open.spotify.com/intl-de/track/1234567890123456789012#x"
+    );
+
+    expect(fetch).toHaveBeenNthCalledWith(
+      1,
+      "https://open.spotify.com/embed/track/1234567890123456789012"
+    );
+    expect(fetch).toHaveBeenNthCalledWith(
+      2,
+      "https://open.spotify.com/embed/track/1234567890123456789012"
+    );
+  });
+
+  test("should follow short link redirects through the transport", async () => {
+    (fetch as any)
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 307,
+        headers: new Headers({ Location: "https://spotify.app.link/abc" }),
+      })
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 302,
+        headers: new Headers({
+          Location:
+            "https://open.spotify.com/track/1234567890123456789012?si=x",
+        }),
+      });
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+
+    const result = await getPreview("https://spotify.link/abc");
+
+    expect(result).toBe("https://p.scdn.co/mp3-preview/abc");
+    expect(fetch).toHaveBeenNthCalledWith(1, "https://spotify.link/abc", {
+      redirect: "manual",
+    });
+    expect(fetch).toHaveBeenNthCalledWith(
+      3,
+      "https://open.spotify.com/embed/track/1234567890123456789012"
+    );
+  });
+
+  test("should resolve short links answered with an HTML page", async () => {
+    mockFetchResponse(
+      `<html><a href="https://open.spotify.com/album/6XhjNHCyCDyyGJRM5mg40G?si=a&amp;b=c">Open</a></html>`
+    );
+
+    const reference = await resolveSpotifyReference("spotify.link/abc");
+
+    expect(reference).toEqual({ type: "album", id: "6XhjNHCyCDyyGJRM5mg40G" });
+  });
+
+  test("should throw InvalidSpotifyUrlError when a short link leads nowhere", async () => {
+    mockFetchResponse("<html>Not found</html>");
+
+    const error = await getPreview("https://spotify.link/abc").catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidSpotifyUrlError);
+  });
+
+  test("should throw InvalidSpotifyUrlError when a short link points to another type", async () => {
+    (fetch as any).mockResolvedValueOnce({
+      ok: false,
+      status: 307,
+      headers: new Headers({
+        Location: "https://open.spotify.com/album/6XhjNHCyCDyyGJRM5mg40G",
+      }),
+    });
+
+    const error = await getPreview("https://spotify.link/abc").catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidSpotifyUrlError);
+    expect(error.message).toContain('"/track/"');
+  });
+
+  test("should parse references without network access", async () => {
+    expect(
+      await resolveSpotifyReference("spotify:episode:1234567890123456789012")
+    ).toEqual({ type: "episode", id: "1234567890123456789012" });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LogLevel, SpotifyApiError } from "../src";
+import { Logger } from "../src/utils/logger.utils";
+
+describe("Logger", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should write one JSON record per line in JSON format", () => {
+    const info = vi.spyOn(console, "info").mockImplementation(() => {});
+    const log = new Logger({ level: LogLevel.INFO, format: "json" });
+
+    log.info("Found preview", { trackId: "abc", durationMs: 12 });
+    log.debug("Not logged");
+
+    expect(info).toHaveBeenCalledTimes(1);
+    const line = info.mock.calls[0][0];
+    expect(JSON.parse(line)).toEqual({
+      ts: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+      level: "INFO",
+      msg: "Found preview",
+      trackId: "abc",
+      durationMs: 12,
+    });
+  });
+
+  it("should serialize errors and other data", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const log = new Logger({ level: LogLevel.DEBUG, format: "json" });
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    log.error("Request failed", new SpotifyApiError("Unavailable", 503));
+    log.error("List", [1, 2]);
+    log.error("Circular", circular);
+
+    const [failed, list, unserializable] = error.mock.calls.map(([line]) =>
+      JSON.parse(line)
+    );
+    expect(failed.error).toMatchObject({
+      name: "SpotifyApiError",
+      message: "Spotify API error: Unavailable (Status: 503)",
+      statusCode: 503,
+    });
+    expect(list.data).toEqual([1, 2]);
+    expect(unserializable).toMatchObject({
+      msg: "Circular",
+      data: "[Unserializable]",
+    });
+  });
+
+  it("should add the fields of child loggers to every record", () => {
+    const custom = vi.fn();
+    const log = new Logger({ level: LogLevel.INFO, custom });
+    const child = log.child({ requestId: "r1" }).child({ trackId: "abc" });
+
+    child.info("Child message", { msg: "ignored", durationMs: 5 });
+    log.info("Parent message");
+
+    expect(custom).toHaveBeenNthCalledWith(
+      1,
+      "INFO",
+      "Child message",
+      { msg: "ignored", durationMs: 5 },
+      expect.objectContaining({
+        msg: "Child message",
+        requestId: "r1",
+        trackId: "abc",
+        durationMs: 5,
+      })
+    );
+    expect(custom.mock.calls[1][3]).not.toHaveProperty("requestId");
+  });
+
+  it("should only output what survives redaction", () => {
+    const custom = vi.fn();
+    const log = new Logger({
+      level: LogLevel.INFO,
+      custom,
+      redact: ({ token, ...record }) => ({
+        ...record,
+        msg: record.msg.replace(/\?.*$/, "?[redacted]"),
+      }),
+    });
+
+    log.info("Fetching https://example.com/a?token=secret", {
+      token: "secret",
+      trackId: "abc",
+    });
+    log.info("No data");
+
+    expect(custom).toHaveBeenNthCalledWith(
+      1,
+      "INFO",
+      "Fetching https://example.com/a?[redacted]",
+      { trackId: "abc" },
+      expect.not.objectContaining({ token: "secret" })
+    );
+    expect(custom.mock.calls[1][2]).toBeUndefined();
+  });
+});
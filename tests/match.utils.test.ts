@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { TrackInfo } from "../src";
+import { normalizeForMatch, scoreCandidate } from "../src/utils/match.utils";
+
+const target: TrackInfo = {
+  trackId: "1234567890123456789012",
+  title: "Never Gonna Give You Up",
+  artists: [{ name: "Rick Astley", uri: null }],
+  album: null,
+  durationMs: 213573,
+  explicit: false,
+  releaseDate: null,
+  isrc: "GBARL9300135",
+  coverArt: [],
+  previewUrl: null,
+};
+
+const candidate = {
+  previewUrl: "https://example.com/preview.mp3",
+  title: "Never Gonna Give You Up",
+  artists: ["Rick Astley"],
+  durationMs: 213000,
+  isrc: null,
+};
+
+describe("normalizeForMatch", () => {
+  it("should ignore case, accents, versions and featured artists", () => {
+    expect(normalizeForMatch("Café Del Mar (Remastered 2009)")).toEqual([
+      "cafe",
+      "del",
+      "mar",
+    ]);
+    expect(normalizeForMatch("Señorita - Radio Edit")).toEqual(["senorita"]);
+    expect(normalizeForMatch("Stay feat. Justin Bieber")).toEqual(["stay"]);
+  });
+});
+
+describe("scoreCandidate", () => {
+  it("should score matching ISRCs as certain", () => {
+    expect(
+      scoreCandidate(target, {
+        ...candidate,
+        title: "Something else",
+        isrc: "gbarl9300135",
+      })
+    ).toBe(1);
+  });
+
+  it("should weigh title, artist and duration", () => {
+    expect(scoreCandidate(target, candidate)).toBe(1);
+    expect(
+      scoreCandidate(target, { ...candidate, artists: ["Someone Else"] })
+    ).toBe(0.7);
+    expect(scoreCandidate(target, { ...candidate, durationMs: null })).toBe(
+      0.9
+    );
+    expect(scoreCandidate(target, { ...candidate, durationMs: 240000 })).toBe(
+      0.8
+    );
+    expect(
+      scoreCandidate(target, { ...candidate, title: "Never Gonna Stop" })
+    ).toBe(0.75);
+  });
+});
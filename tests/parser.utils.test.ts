@@ -1,6 +1,16 @@
 import { describe, expect, it } from "vitest";
-import { extractTrackIdFromUrl, validateSpotifyTrackId } from "../src";
-import { InvalidSpotifyUrlError, InvalidTrackIdError } from "../src";
+import {
+  extractSpotifyIdFromUrl,
+  extractTrackIdFromUrl,
+  parseSpotifyReference,
+  validateSpotifyId,
+  validateSpotifyTrackId,
+} from "../src";
+import {
+  InvalidSpotifyIdError,
+  InvalidSpotifyUrlError,
+  InvalidTrackIdError,
+} from "../src";
 
 describe("extractTrackIdFromUrl", () => {
   it("should extract track ID from a standard Spotify track URL", () => {
@@ -14,6 +24,20 @@ describe("extractTrackIdFromUrl", () => {
     expect(extractTrackIdFromUrl(url)).toBe("3zhbXKFjUDw40pTYyCgt1Y");
   });
 
+  it("should extract track ID from URIs, localized, embed and fragment URLs", () => {
+    const id = "3zhbXKFjUDw40pTYyCgt1Y";
+    expect(extractTrackIdFromUrl(`spotify:track:${id}`)).toBe(id);
+    expect(
+      extractTrackIdFromUrl(`https://open.spotify.com/intl-de/track/${id}`)
+    ).toBe(id);
+    expect(
+      extractTrackIdFromUrl(`https://open.spotify.com/embed/track/${id}`)
+    ).toBe(id);
+    expect(extractTrackIdFromUrl(`open.spotify.com/track/${id}#t=0:30`)).toBe(
+      id
+    );
+  });
+
   it("should throw InvalidSpotifyUrlError for a Spotify URL without a track path", () => {
     const url = "https://open.spotify.com/album/7tgTOUXm74GKA12wsQIUPu";
     expect(() => extractTrackIdFromUrl(url)).toThrow(InvalidSpotifyUrlError);
@@ -55,3 +79,88 @@ describe("validateSpotifyTrackId", () => {
     expect(() => validateSpotifyTrackId(trackId)).toThrow(InvalidTrackIdError);
   });
 });
+
+describe("extractSpotifyIdFromUrl", () => {
+  it("should extract the ID from album, playlist and artist URLs", () => {
+    expect(
+      extractSpotifyIdFromUrl(
+        "https://open.spotify.com/album/6XhjNHCyCDyyGJRM5mg40G",
+        "album"
+      )
+    ).toBe("6XhjNHCyCDyyGJRM5mg40G");
+    expect(
+      extractSpotifyIdFromUrl(
+        "https://open.spotify.com/playlist/37i9dQZF1DXcBWIGoYBM5M?si=abc",
+        "playlist"
+      )
+    ).toBe("37i9dQZF1DXcBWIGoYBM5M");
+    expect(
+      extractSpotifyIdFromUrl(
+        "https://open.spotify.com/artist/0gxyHStUsqpMadRV0Di1Qt",
+        "artist"
+      )
+    ).toBe("0gxyHStUsqpMadRV0Di1Qt");
+  });
+
+  it("should throw InvalidSpotifyUrlError when the URL points to another type", () => {
+    const url = "https://open.spotify.com/track/3zhbXKFjUDw40pTYyCgt1Y";
+    expect(() => extractSpotifyIdFromUrl(url, "album")).toThrow(
+      InvalidSpotifyUrlError
+    );
+    expect(() => extractSpotifyIdFromUrl(url, "album")).toThrow('"/album/"');
+  });
+});
+
+describe("validateSpotifyId", () => {
+  it("should return true for a valid ID", () => {
+    expect(validateSpotifyId("37i9dQZF1DXcBWIGoYBM5M", "playlist")).toBe(true);
+  });
+
+  it("should throw InvalidSpotifyIdError carrying the type for an invalid ID", () => {
+    expect(() => validateSpotifyId("too-short", "album")).toThrow(
+      InvalidSpotifyIdError
+    );
+    expect(() => validateSpotifyId("too-short", "album")).toThrow(
+      "Invalid album ID format"
+    );
+  });
+
+  it("should throw InvalidTrackIdError for an invalid track ID", () => {
+    expect(() => validateSpotifyId("too-short", "track")).toThrow(
+      InvalidTrackIdError
+    );
+  });
+});
+
+describe("parseSpotifyReference", () => {
+  const id = "3zhbXKFjUDw40pTYyCgt1Y";
+
+  it.each([
+    ["track", `spotify:track:${id}`],
+    ["album", `spotify:album:${id}`],
+    ["episode", `spotify:episode:${id}`],
+    ["track", `https://open.spotify.com/track/${id}`],
+    ["track", `https://open.spotify.com/track/${id}?si=abc#fragment`],
+    ["track", `https://open.spotify.com/intl-de/track/${id}`],
+    ["track", `https://open.spotify.com/intl-pt-BR/track/${id}`],
+    ["track", `https://open.spotify.com/embed/track/${id}?utm_source=x`],
+    ["playlist", `open.spotify.com/playlist/${id}`],
+    ["artist", `https://play.spotify.com/artist/${id}`],
+    ["episode", `https://open.spotify.com/episode/${id}`],
+  ])("should parse a %s reference from %s", (type, input) => {
+    expect(parseSpotifyReference(input)).toEqual({ type, id });
+  });
+
+  it.each([
+    "https://www.google.com/track/3zhbXKFjUDw40pTYyCgt1Y",
+    "https://notspotify.com/track/3zhbXKFjUDw40pTYyCgt1Y",
+    "https://open.spotify.com/user/someone",
+    "https://open.spotify.com/track/too-short",
+    "https://open.spotify.com/track/3zhbXKFjUDw40pTYyCgt1Y/extra",
+    "spotify:show:3zhbXKFjUDw40pTYyCgt1Y",
+    "spotify:track:invalid",
+    "not a url",
+  ])("should throw InvalidSpotifyUrlError for %s", (input) => {
+    expect(() => parseSpotifyReference(input)).toThrow(InvalidSpotifyUrlError);
+  });
+});
@@ -0,0 +1,493 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "vitest";
+import {
+  createServer,
+  IncomingHttpHeaders,
+  IncomingMessage,
+  Server,
+} from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  DeezerProvider,
+  EmbedProvider,
+  ITunesProvider,
+  MemoryCacheStore,
+  PreviewProvider,
+  RegionRestrictedError,
+  SpotifyApiError,
+  SpotifyPreviewClient,
+  WebApiProvider,
+} from "../src";
+import { realFetch } from "./utils/fetch-mocks";
+import { buildEmbedHtml, trackEntity } from "./utils/embed-fixtures";
+
+const WITH_PREVIEW = "1234567890123456789012";
+const WITHOUT_PREVIEW = "abcdefghijklmnopqrstuv";
+const API_PREVIEW_URL = "https://p.scdn.co/mp3-preview/from-api";
+
+describe("providers", () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: IncomingMessage[];
+  let expiresIn: number;
+  let rejectNextToken: boolean;
+  let tokenCount: number;
+
+  beforeAll(async () => {
+    // Stand-in for the accounts service, the Web API and the embed pages
+    server = createServer((req, res) => {
+      requests.push(req);
+      const json = (status: number, body: unknown) =>
+        res
+          .writeHead(status, { "Content-Type": "application/json" })
+          .end(JSON.stringify(body));
+
+      if (req.method === "POST" && req.url === "/api/token") {
+        const expected = `Basic ${btoa("id:secret")}`;
+        if (req.headers.authorization !== expected) {
+          return json(400, { error: "invalid_client" });
+        }
+        tokenCount++;
+        return json(200, {
+          access_token: `token-${tokenCount}`,
+          token_type: "Bearer",
+          expires_in: expiresIn,
+        });
+      }
+
+      const track = req.url?.match(/^\/v1\/tracks\/(\w+)(?:\?market=(\w+))?$/);
+      if (track) {
+        if (
+          rejectNextToken ||
+          req.headers.authorization !== `Bearer token-${tokenCount}`
+        ) {
+          rejectNextToken = false;
+          return json(401, { error: { status: 401 } });
+        }
+        if (track[1] === "0000000000000000000000") {
+          return json(503, { error: { status: 503 } });
+        }
+        if (track[2] === "KP") {
+          return json(200, {
+            id: track[1],
+            preview_url: null,
+            restrictions: { reason: "market" },
+          });
+        }
+        return json(200, {
+          id: track[1],
+          preview_url: track[1] === WITH_PREVIEW ? API_PREVIEW_URL : null,
+        });
+      }
+
+      if (req.url?.startsWith("/embed/track/")) {
+        return res.writeHead(200).end(buildEmbedHtml(trackEntity));
+      }
+
+      res.writeHead(404).end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    expiresIn = 3600;
+    rejectNextToken = false;
+    tokenCount = 0;
+  });
+
+  const createClient = (providers: PreviewProvider[]) =>
+    new SpotifyPreviewClient({ fetch: realFetch, baseUrl, providers });
+
+  const createWebApiProvider = () =>
+    new WebApiProvider({
+      clientId: "id",
+      clientSecret: "secret",
+      accountsBaseUrl: baseUrl,
+      apiBaseUrl: `${baseUrl}/`,
+    });
+
+  test("should look up previews through the Web API, caching the token", async () => {
+    const client = createClient([createWebApiProvider()]);
+
+    const [result] = await client.getPreviews([WITH_PREVIEW]);
+    await client.getPreview(WITH_PREVIEW);
+
+    expect(result.previewUrl).toBe(API_PREVIEW_URL);
+    expect(result.provider).toBe("web-api");
+    expect(requests.map((req) => req.url)).toEqual([
+      "/api/token",
+      `/v1/tracks/${WITH_PREVIEW}`,
+      `/v1/tracks/${WITH_PREVIEW}`,
+    ]);
+  });
+
+  test("should refresh expired and rejected tokens", async () => {
+    const client = createClient([createWebApiProvider()]);
+    // Tokens this short-lived are already within the refresh margin
+    expiresIn = 30;
+
+    await client.getPreview(WITH_PREVIEW);
+    await client.getPreview(WITH_PREVIEW);
+    expect(tokenCount).toBe(2);
+
+    expiresIn = 3600;
+    await client.getPreview(WITH_PREVIEW);
+    rejectNextToken = true;
+    expect(await client.getPreview(WITH_PREVIEW)).toBe(API_PREVIEW_URL);
+    expect(tokenCount).toBe(4);
+  });
+
+  test("should fall back to the next provider when there is no preview", async () => {
+    const client = createClient([createWebApiProvider(), new EmbedProvider()]);
+
+    const [result] = await client.getPreviews([WITHOUT_PREVIEW]);
+
+    expect(result.previewUrl).toBe("https://p.scdn.co/mp3-preview/abc");
+    expect(result.provider).toBe("embed");
+    expect(requests.at(-1)?.url).toBe(`/embed/track/${WITHOUT_PREVIEW}`);
+  });
+
+  test("should fall back to the next provider when one fails", async () => {
+    const failing: PreviewProvider = {
+      name: "failing",
+      getPreviewUrl: async () => {
+        throw new SpotifyApiError("Unavailable", 503);
+      },
+    };
+    const client = createClient([failing, createWebApiProvider()]);
+
+    const [result] = await client.getPreviews([WITH_PREVIEW]);
+
+    expect(result.provider).toBe("web-api");
+    expect(result.error).toBeNull();
+  });
+
+  test("should report the provider that answered without a preview", async () => {
+    const client = createClient([createWebApiProvider()]);
+
+    const [result] = await client.getPreviews([WITHOUT_PREVIEW]);
+
+    expect(result).toMatchObject({ previewUrl: null, provider: "web-api" });
+  });
+
+  test("should look up previews for the market and locale of the call", async () => {
+    const client = createClient([createWebApiProvider()]);
+
+    const availability = await client.getPreviewAvailability(
+      WITH_PREVIEW,
+      ["US", "KP"],
+      { locale: "ko-KR", concurrency: 1 }
+    );
+
+    const trackRequests = requests.filter((req) =>
+      req.url!.startsWith("/v1/tracks/")
+    );
+    expect(trackRequests.map((req) => req.url)).toEqual([
+      `/v1/tracks/${WITH_PREVIEW}?market=US`,
+      `/v1/tracks/${WITH_PREVIEW}?market=KP`,
+    ]);
+    expect(trackRequests[0].headers["accept-language"]).toBe("ko-KR");
+    expect(trackRequests[0].headers.authorization).toBe("Bearer token-1");
+    expect(availability.markets[0]).toMatchObject({
+      market: "US",
+      available: true,
+      previewUrl: API_PREVIEW_URL,
+    });
+    expect(availability.markets[1]).toMatchObject({
+      market: "KP",
+      available: false,
+      restricted: true,
+    });
+    expect(availability.markets[1].error).toBeInstanceOf(RegionRestrictedError);
+    expect(availability.markets[1].error).toMatchObject({ market: "KP" });
+  });
+
+  test("should merge request headers of any form with the configured ones", async () => {
+    const custom: PreviewProvider = {
+      name: "custom",
+      getPreviewUrl: async (trackId, context) => {
+        await context.request(`/embed/track/${trackId}`, {
+          headers: new Headers({ Authorization: "Bearer custom" }),
+        });
+        await context.request(`/embed/track/${trackId}`, {
+          headers: [["user-agent", "custom/2.0"]],
+        });
+        return null;
+      },
+    };
+    const client = new SpotifyPreviewClient({
+      fetch: realFetch,
+      baseUrl,
+      headers: { "User-Agent": "my-app/1.0" },
+      locale: "de-DE",
+      providers: [custom],
+    });
+
+    await client.getPreview(WITH_PREVIEW, { cache: false });
+
+    expect(requests[0].headers.authorization).toBe("Bearer custom");
+    expect(requests[0].headers["user-agent"]).toBe("my-app/1.0");
+    expect(requests[0].headers["accept-language"]).toBe("de-DE");
+    expect(requests[1].headers["user-agent"]).toBe("custom/2.0");
+  });
+
+  test("should throw the last error when no provider could answer", async () => {
+    const client = createClient([
+      new WebApiProvider({
+        clientId: "wrong",
+        clientSecret: "secret",
+        accountsBaseUrl: baseUrl,
+        apiBaseUrl: baseUrl,
+      }),
+      createWebApiProvider(),
+    ]);
+
+    const error = await client
+      .getPreview("0000000000000000000000")
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(SpotifyApiError);
+    expect(error.statusCode).toBe(503);
+  });
+});
+
+describe("fallback providers", () => {
+  const NO_ISRC = "abcdefghijklmnopqrstuv";
+  const WITH_ISRC = "bbcdefghijklmnopqrstuv";
+  const DEEZER_PREVIEW_URL = "https://cdns-preview.dzcdn.net/stream/abc.mp3";
+  const ITUNES_PREVIEW_URL = "https://audio-ssl.itunes.apple.com/abc.m4a";
+
+  let server: Server;
+  let baseUrl: string;
+  let requests: URL[];
+  let requestHeaders: IncomingHttpHeaders[];
+  let deezerResults: unknown[];
+  let itunesResults: unknown[];
+
+  const deezerTrack = {
+    title: "Never Gonna Give You Up (Remastered)",
+    duration: 213,
+    preview: DEEZER_PREVIEW_URL,
+    artist: { name: "Rick Astley" },
+  };
+
+  beforeAll(async () => {
+    // Stand-in for the embed pages, the Deezer API and the iTunes Search API
+    server = createServer((req, res) => {
+      const url = new URL(req.url!, "http://localhost");
+      requests.push(url);
+      requestHeaders.push(req.headers);
+      const json = (body: unknown) =>
+        res
+          .writeHead(200, { "Content-Type": "application/json" })
+          .end(JSON.stringify(body));
+
+      const embed = url.pathname.match(/^\/embed\/track\/(\w+)$/);
+      if (embed) {
+        return res.writeHead(200).end(
+          buildEmbedHtml({
+            ...trackEntity,
+            audioPreview: undefined,
+            isrc: embed[1] === WITH_ISRC ? "GBARL9300135" : undefined,
+          })
+        );
+      }
+      if (url.pathname === "/deezer/track/isrc:GBARL9300135") {
+        return json({ ...deezerTrack, isrc: "GBARL9300135", title: "NGGYU" });
+      }
+      if (url.pathname === "/deezer/search") {
+        return json({ data: deezerResults });
+      }
+      if (url.pathname === "/itunes/search") {
+        return json({
+          resultCount: itunesResults.length,
+          results: itunesResults,
+        });
+      }
+      res.writeHead(404).end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    requestHeaders = [];
+    deezerResults = [
+      { ...deezerTrack, title: "Together Forever", duration: 205 },
+      deezerTrack,
+    ];
+    itunesResults = [
+      {
+        trackName: "Never Gonna Give You Up",
+        artistName: "Rick Astley",
+        trackTimeMillis: 213000,
+        previewUrl: ITUNES_PREVIEW_URL,
+      },
+    ];
+  });
+
+  const createClient = (providers: PreviewProvider[]) =>
+    new SpotifyPreviewClient({ fetch: realFetch, baseUrl, providers });
+
+  test("should search Deezer and return the best match", async () => {
+    const client = createClient([
+      new EmbedProvider(),
+      new DeezerProvider({ baseUrl: `${baseUrl}/deezer` }),
+    ]);
+
+    const [result] = await client.getPreviews([NO_ISRC]);
+
+    expect(result).toMatchObject({
+      previewUrl: DEEZER_PREVIEW_URL,
+      provider: "deezer",
+      source: "deezer",
+      matchConfidence: 1,
+    });
+    // The embed page is fetched once and shared by both providers
+    expect(requests.map((url) => url.pathname)).toEqual([
+      `/embed/track/${NO_ISRC}`,
+      "/deezer/search",
+    ]);
+    expect(requests[1].searchParams.get("q")).toBe(
+      'artist:"Rick Astley" track:"Never Gonna Give You Up"'
+    );
+  });
+
+  test("should cache fallback matches per provider chain", async () => {
+    const store = new MemoryCacheStore();
+    const client = new SpotifyPreviewClient({
+      fetch: realFetch,
+      baseUrl,
+      cache: { store },
+    });
+    const fallbackChain = [
+      new EmbedProvider(),
+      new DeezerProvider({ baseUrl: `${baseUrl}/deezer` }),
+    ];
+
+    await client.getPreviewResult(NO_ISRC, { providers: fallbackChain });
+    const cached = await client.getPreviewResult(NO_ISRC, {
+      providers: fallbackChain,
+    });
+    const embedOnly = await client.getPreviewResult(NO_ISRC, {
+      providers: [new EmbedProvider()],
+    });
+
+    expect(cached).toMatchObject({
+      ok: true,
+      previewUrl: DEEZER_PREVIEW_URL,
+      provider: "deezer",
+      source: "deezer",
+      matchConfidence: 1,
+    });
+    expect(embedOnly).toMatchObject({ ok: false, reason: "no-preview" });
+    expect(requests.map((url) => url.pathname)).toEqual([
+      `/embed/track/${NO_ISRC}`,
+      "/deezer/search",
+      `/embed/track/${NO_ISRC}`,
+    ]);
+  });
+
+  test("should not send the configured headers to other services", async () => {
+    deezerResults = [];
+    const client = new SpotifyPreviewClient({
+      fetch: realFetch,
+      baseUrl,
+      headers: { Cookie: "sp_dc=secret" },
+      providers: [
+        new EmbedProvider(),
+        new DeezerProvider({ baseUrl: `${baseUrl}/deezer` }),
+        new ITunesProvider({ baseUrl: `${baseUrl}/itunes` }),
+      ],
+    });
+
+    await client.getPreview(NO_ISRC);
+
+    expect(requests.map((url) => url.pathname)).toEqual([
+      `/embed/track/${NO_ISRC}`,
+      "/deezer/search",
+      "/itunes/search",
+    ]);
+    expect(requestHeaders.map((headers) => headers.cookie)).toEqual([
+      "sp_dc=secret",
+      undefined,
+      undefined,
+    ]);
+  });
+
+  test("should look up Deezer tracks by ISRC first", async () => {
+    const client = createClient([
+      new DeezerProvider({ baseUrl: `${baseUrl}/deezer` }),
+    ]);
+
+    const result = await client.getPreviewResult(WITH_ISRC);
+
+    expect(result).toMatchObject({
+      ok: true,
+      previewUrl: DEEZER_PREVIEW_URL,
+      source: "deezer",
+      matchConfidence: 1,
+    });
+    expect(requests.at(-1)?.pathname).toBe("/deezer/track/isrc:GBARL9300135");
+  });
+
+  test("should fall through to iTunes when no candidate is close enough", async () => {
+    deezerResults = [
+      { ...deezerTrack, title: "Together Forever", duration: 205 },
+    ];
+    const client = createClient([
+      new EmbedProvider(),
+      new DeezerProvider({ baseUrl: `${baseUrl}/deezer` }),
+      new ITunesProvider({ baseUrl: `${baseUrl}/itunes/`, country: "GB" }),
+    ]);
+
+    const [result] = await client.getPreviews([NO_ISRC]);
+
+    expect(result).toMatchObject({
+      previewUrl: ITUNES_PREVIEW_URL,
+      provider: "itunes",
+      source: "itunes",
+      matchConfidence: 1,
+    });
+    const search = requests.at(-1)!;
+    expect(search.pathname).toBe("/itunes/search");
+    expect(search.searchParams.get("term")).toBe(
+      "Rick Astley Never Gonna Give You Up"
+    );
+    expect(search.searchParams.get("country")).toBe("GB");
+  });
+
+  test("should report no preview when nothing matches", async () => {
+    itunesResults = [];
+    const client = createClient([
+      new ITunesProvider({ baseUrl: `${baseUrl}/itunes`, minConfidence: 0.9 }),
+    ]);
+
+    const [result] = await client.getPreviews([NO_ISRC]);
+
+    expect(result).toMatchObject({
+      previewUrl: null,
+      provider: "itunes",
+      source: null,
+      matchConfidence: null,
+      error: null,
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SpotifyAbortError, SpotifyPreviewClient } from "../src";
+import { RateLimiter } from "../src/utils/rate-limit.utils";
+import { Logger } from "../src/utils/logger.utils";
+import { LogLevel } from "../src/types";
+import {
+  clearFetchMocks,
+  mockFetchResponse,
+  setupMockFetch,
+} from "./utils/fetch-mocks";
+import { buildEmbedHtml, trackEntity } from "./utils/embed-fixtures";
+
+setupMockFetch();
+
+const log = new Logger();
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should allow a burst up to the limit, then pace requests", async () => {
+    const limiter = new RateLimiter({ requests: 2, intervalMs: 1000 });
+    const acquired: number[] = [];
+
+    for (let i = 0; i < 4; i++) {
+      limiter.acquire(undefined, log).then(() => acquired.push(i));
+    }
+    await vi.advanceTimersByTimeAsync(0);
+    expect(acquired).toEqual([0, 1]);
+    expect(limiter.queueDepth).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(acquired).toEqual([0, 1, 2]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(acquired).toEqual([0, 1, 2, 3]);
+    expect(limiter.queueDepth).toBe(0);
+  });
+
+  it("should report queue depth changes and log waits", async () => {
+    const onQueueChange = vi.fn();
+    const custom = vi.fn();
+    const limiter = new RateLimiter({
+      requests: 1,
+      intervalMs: 100,
+      onQueueChange,
+    });
+
+    await limiter.acquire(undefined, log);
+    const waiting = limiter.acquire(
+      undefined,
+      new Logger({ level: LogLevel.DEBUG, custom })
+    );
+
+    expect(onQueueChange).toHaveBeenLastCalledWith(1);
+    expect(custom).toHaveBeenCalledWith(
+      "DEBUG",
+      expect.stringContaining("Rate limit reached, waiting about 100ms"),
+      undefined,
+      expect.objectContaining({ level: "DEBUG" })
+    );
+
+    await vi.advanceTimersByTimeAsync(100);
+    await waiting;
+    expect(onQueueChange).toHaveBeenLastCalledWith(0);
+  });
+
+  it("should remove cancelled requests from the queue", async () => {
+    const limiter = new RateLimiter({ requests: 1, intervalMs: 1000 });
+    const controller = new AbortController();
+    await limiter.acquire(undefined, log);
+
+    const cancelled = limiter.acquire(controller.signal, log);
+    const next = vi.fn();
+    limiter.acquire(undefined, log).then(next);
+    expect(limiter.queueDepth).toBe(2);
+
+    controller.abort();
+    await expect(cancelled).rejects.toBeInstanceOf(SpotifyAbortError);
+    expect(limiter.queueDepth).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("should pace fractional limits instead of blocking forever", async () => {
+    const limiter = new RateLimiter({ requests: 0.5, intervalMs: 100 });
+    const acquired: number[] = [];
+
+    for (let i = 0; i < 2; i++) {
+      limiter.acquire(undefined, log).then(() => acquired.push(i));
+    }
+    await vi.advanceTimersByTimeAsync(0);
+    expect(acquired).toEqual([0]);
+
+    await vi.advanceTimersByTimeAsync(199);
+    expect(acquired).toEqual([0]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(acquired).toEqual([0, 1]);
+  });
+
+  it("should reject invalid limits", () => {
+    expect(() => new RateLimiter({ requests: 0 })).toThrow(RangeError);
+    expect(() => new RateLimiter({ requests: 1, intervalMs: -1 })).toThrow(
+      RangeError
+    );
+  });
+});
+
+describe("rateLimit option", () => {
+  beforeEach(() => {
+    clearFetchMocks();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should pace every request made by a client", async () => {
+    const client = new SpotifyPreviewClient({
+      rateLimit: { requests: 1, intervalMs: 1000 },
+    });
+    for (let i = 0; i < 3; i++) {
+      mockFetchResponse(buildEmbedHtml(trackEntity));
+    }
+
+    const results = client.getPreviews([
+      "1234567890123456789012",
+      "abcdefghijklmnopqrstuv",
+      "ABCDEFGHIJKLMNOPQRSTUV",
+    ]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(client.getRateLimitQueueDepth()).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect((await results).every((r) => r.previewUrl)).toBe(true);
+  });
+
+  it("should time out while waiting in the queue", async () => {
+    const client = new SpotifyPreviewClient({
+      rateLimit: { requests: 1, intervalMs: 10000 },
+    });
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+    await client.getPreview("1234567890123456789012");
+
+    const waiting = client
+      .getPreview("abcdefghijklmnopqrstuv", { timeoutMs: 100 })
+      .catch((e) => e);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect((await waiting).name).toBe("SpotifyTimeoutError");
+    expect(client.getRateLimitQueueDepth()).toBe(0);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should be removed with rateLimit: false", async () => {
+    const client = new SpotifyPreviewClient({
+      rateLimit: { requests: 1, intervalMs: 10000 },
+    });
+    client.configure({ rateLimit: false });
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+
+    await client.getPreview("1234567890123456789012");
+    await client.getPreview("abcdefghijklmnopqrstuv");
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
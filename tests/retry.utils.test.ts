@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { SpotifyApiError, InvalidTrackIdError } from "../src";
+import { parseRetryAfter, withRetry } from "../src/utils/retry.utils";
+import { Logger } from "../src/utils/logger.utils";
+
+const log = new Logger();
+
+describe("withRetry", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should make a single attempt without a policy", async () => {
+    const fn = vi.fn().mockRejectedValue(new SpotifyApiError("boom", 503));
+
+    const error = await withRetry(fn, undefined, log).catch((e) => e);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(error.attempts).toBe(1);
+  });
+
+  it("should retry retryable status codes up to maxAttempts", async () => {
+    const fn = vi.fn().mockRejectedValue(new SpotifyApiError("boom", 503));
+
+    const error = await withRetry(
+      fn,
+      { maxAttempts: 3, baseDelayMs: 0 },
+      log
+    ).catch((e) => e);
+
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(error).toBeInstanceOf(SpotifyApiError);
+    expect(error.attempts).toBe(3);
+  });
+
+  it("should return the first successful result", async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new SpotifyApiError("boom"))
+      .mockResolvedValueOnce("ok");
+
+    expect(await withRetry(fn, { baseDelayMs: 0 }, log)).toBe("ok");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry non-retryable status codes", async () => {
+    const fn = vi.fn().mockRejectedValue(new SpotifyApiError("gone", 404));
+
+    const error = await withRetry(fn, { baseDelayMs: 0 }, log).catch((e) => e);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(error.attempts).toBe(1);
+  });
+
+  it("should never retry parser errors", async () => {
+    const fn = vi.fn().mockRejectedValue(new InvalidTrackIdError("abc"));
+
+    await withRetry(fn, { baseDelayMs: 0 }, log).catch(() => {});
+
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not retry network errors when disabled", async () => {
+    const fn = vi.fn().mockRejectedValue(new SpotifyApiError("reset"));
+
+    await withRetry(
+      fn,
+      { baseDelayMs: 0, retryNetworkErrors: false },
+      log
+    ).catch(() => {});
+
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should back off exponentially without jitter", async () => {
+    vi.useFakeTimers();
+    const fn = vi.fn().mockRejectedValue(new SpotifyApiError("boom", 500));
+
+    const promise = withRetry(
+      fn,
+      { maxAttempts: 3, baseDelayMs: 100, jitter: false },
+      log
+    ).catch((e) => e);
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fn).toHaveBeenCalledTimes(3);
+
+    expect((await promise).attempts).toBe(3);
+  });
+
+  it("should wait for Retry-After instead of the backoff delay", async () => {
+    vi.useFakeTimers();
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new SpotifyApiError("slow down", 429, 2000))
+      .mockResolvedValueOnce("ok");
+
+    const promise = withRetry(fn, { baseDelayMs: 10 }, log);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await promise).toBe("ok");
+  });
+
+  it("should cap Retry-After at maxDelayMs", async () => {
+    vi.useFakeTimers();
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new SpotifyApiError("slow down", 429, 3600000))
+      .mockResolvedValueOnce("ok");
+
+    const promise = withRetry(fn, { maxDelayMs: 1000 }, log);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await promise).toBe("ok");
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should parse delays in seconds", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+  });
+
+  it("should parse HTTP dates", () => {
+    vi.useFakeTimers({ now: new Date("2025-01-01T00:00:00Z") });
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:05 GMT")).toBe(5000);
+    vi.useRealTimers();
+  });
+
+  it("should return undefined for missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "vitest";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { startPreviewServer } from "../src";
+import {
+  clearFetchMocks,
+  mockFetchErrorResponse,
+  mockFetchResponse,
+  realFetch,
+  setupMockFetch,
+} from "./utils/fetch-mocks";
+import {
+  buildEmbedHtml,
+  noPreviewHtml,
+  trackEntity,
+} from "./utils/embed-fixtures";
+
+setupMockFetch();
+
+const TRACK_ID = "1234567890123456789012";
+const PREVIEW_URL = "https://p.scdn.co/mp3-preview/abc";
+
+describe("preview server", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = await startPreviewServer({ port: 0, host: "127.0.0.1" });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    clearFetchMocks();
+  });
+
+  test("should return the preview as JSON with CORS and cache headers", async () => {
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+
+    const response = await realFetch(`${baseUrl}/preview/${TRACK_ID}`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("access-control-allow-origin")).toBe("*");
+    expect(response.headers.get("cache-control")).toBe("public, max-age=3600");
+    expect(await response.json()).toEqual({
+      input: TRACK_ID,
+      trackId: TRACK_ID,
+      previewUrl: PREVIEW_URL,
+      provider: "embed",
+      source: "spotify",
+      matchConfidence: 1,
+      market: null,
+      error: null,
+    });
+  });
+
+  test("should redirect to the preview and accept encoded URIs", async () => {
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+
+    const response = await realFetch(
+      `${baseUrl}/preview/${encodeURIComponent(
+        `spotify:track:${TRACK_ID}`
+      )}?redirect`,
+      { redirect: "manual" }
+    );
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("location")).toBe(PREVIEW_URL);
+  });
+
+  test("should map library errors to status codes", async () => {
+    mockFetchResponse(noPreviewHtml);
+    mockFetchErrorResponse(500, "Internal Server Error");
+
+    const invalid = await realFetch(`${baseUrl}/preview/invalid-id`);
+    const noPreview = await realFetch(`${baseUrl}/preview/${TRACK_ID}`);
+    const apiError = await realFetch(`${baseUrl}/preview/${TRACK_ID}`);
+
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error).toMatchObject({
+      name: "InvalidTrackIdError",
+      code: "INVALID_TRACK_ID",
+    });
+    expect(noPreview.status).toBe(404);
+    expect((await noPreview.json()).error.name).toBe("NoPreviewAvailableError");
+    expect(apiError.status).toBe(502);
+    expect(apiError.headers.get("cache-control")).toBe("no-store");
+  });
+
+  test("should return track metadata", async () => {
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+
+    const response = await realFetch(`${baseUrl}/track/${TRACK_ID}`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      trackId: TRACK_ID,
+      previewUrl: PREVIEW_URL,
+    });
+  });
+
+  test("should look up batches", async () => {
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+
+    const response = await realFetch(`${baseUrl}/previews`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ tracks: [TRACK_ID, "invalid"] }),
+    });
+    const results = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(results[0].previewUrl).toBe(PREVIEW_URL);
+    expect(results[1].error.name).toBe("InvalidTrackIdError");
+    expect(response.headers.get("cache-control")).toBe("no-store");
+  });
+
+  test("should allow caching batches without errors", async () => {
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+
+    const response = await realFetch(`${baseUrl}/previews`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ tracks: [TRACK_ID] }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("cache-control")).toBe("public, max-age=3600");
+  });
+
+  test("should reject malformed requests", async () => {
+    const badBody = await realFetch(`${baseUrl}/previews`, {
+      method: "POST",
+      body: "not json",
+    });
+    const wrongMethod = await realFetch(`${baseUrl}/previews`);
+    const unknown = await realFetch(`${baseUrl}/unknown`);
+    const preflight = await realFetch(`${baseUrl}/previews`, {
+      method: "OPTIONS",
+    });
+
+    expect(badBody.status).toBe(400);
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get("allow")).toBe("POST");
+    expect(unknown.status).toBe(404);
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get("access-control-allow-methods")).toContain(
+      "POST"
+    );
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Builds a minimal Spotify embed page containing the given entity in its __NEXT_DATA__ page state.
+ * @param entity - The entity to embed (track, album, ...)
+ */
+export function buildEmbedHtml(entity: Record<string, any>) {
+  const state = {
+    props: { pageProps: { state: { data: { entity } } } },
+  };
+  return `<!DOCTYPE html><html><head></head><body><div id="__next"></div><script id="__NEXT_DATA__" type="application/json">${JSON.stringify(
+    state
+  )}</script></body></html>`;
+}
+
+/**
+ * A representative track entity as found on open.spotify.com/embed/track/{id}.
+ */
+export const trackEntity = {
+  type: "track",
+  name: "Never Gonna Give You Up",
+  uri: "spotify:track:1234567890123456789012",
+  id: "1234567890123456789012",
+  title: "Never Gonna Give You Up",
+  artists: [
+    { name: "Rick Astley", uri: "spotify:artist:0gxyHStUsqpMadRV0Di1Qt" },
+  ],
+  releaseDate: { isoString: "1987-11-12T00:00:00Z" },
+  duration: 213573,
+  isExplicit: false,
+  audioPreview: { url: "https://p.scdn.co/mp3-preview/abc", format: "MP3_96" },
+  visualIdentity: {
+    image: [
+      { url: "https://i.scdn.co/image/large", maxHeight: 640, maxWidth: 640 },
+      { url: "https://i.scdn.co/image/small", maxHeight: 64, maxWidth: 64 },
+    ],
+  },
+};
+
+/**
+ * An embed page for a track without an audio preview.
+ */
+export const noPreviewHtml = buildEmbedHtml({
+  ...trackEntity,
+  audioPreview: undefined,
+});
+
+/**
+ * A representative album entity as found on open.spotify.com/embed/album/{id}.
+ */
+export const albumEntity = {
+  type: "album",
+  name: "Whenever You Need Somebody",
+  uri: "spotify:album:6XhjNHCyCDyyGJRM5mg40G",
+  id: "6XhjNHCyCDyyGJRM5mg40G",
+  title: "Whenever You Need Somebody",
+  subtitle: "Rick Astley",
+  trackList: [
+    {
+      uri: "spotify:track:1234567890123456789012",
+      uid: "a1",
+      title: "Never Gonna Give You Up",
+      subtitle: "Rick Astley",
+      isExplicit: false,
+      duration: 213573,
+      isPlayable: true,
+      audioPreview: { url: "https://p.scdn.co/mp3-preview/abc" },
+    },
+    {
+      uri: "spotify:track:2234567890123456789012",
+      uid: "a2",
+      title: "Whenever You Need Somebody",
+      subtitle: "Rick Astley",
+      isExplicit: true,
+      duration: 234000,
+      isPlayable: true,
+    },
+  ],
+};
+
+/**
+ * A representative podcast episode entity as found on open.spotify.com/embed/episode/{id}.
+ */
+export const episodeEntity = {
+  type: "episode",
+  name: "The Making of a Hit",
+  uri: "spotify:episode:512ojhOuo1ktJprKbVcKyQ",
+  id: "512ojhOuo1ktJprKbVcKyQ",
+  title: "The Making of a Hit",
+  subtitle: "Song Exploder",
+  duration: 1254000,
+  isPlayable: true,
+  audioPreview: {
+    url: "https://podz-content.spotifycdn.com/audio/clips/abc/clip.mp3",
+  },
+};
+
+/**
+ * A representative audiobook chapter entity as found on open.spotify.com/embed/chapter/{id}.
+ */
+export const chapterEntity = {
+  type: "chapter",
+  name: "Chapter 1",
+  uri: "spotify:chapter:0D5wENdkdwbqlrHoaJ9g29",
+  id: "0D5wENdkdwbqlrHoaJ9g29",
+  title: "Chapter 1",
+  audiobook: { name: "Pride and Prejudice" },
+  duration: 845000,
+  audioPreview: { url: "https://p.scdn.co/mp3-preview/chapter" },
+};
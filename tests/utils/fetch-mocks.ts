@@ -17,6 +17,7 @@ export function mockFetchResponse(response: string, status = 200) {
   (fetch as any).mockResolvedValueOnce({
     ok: status >= 200 && status < 300,
     status,
+    headers: new Headers(),
     text: () => Promise.resolve(response),
   });
 }
@@ -25,12 +26,18 @@ export function mockFetchResponse(response: string, status = 200) {
  * Helper to setup fetch mock error responses
  * @param status - HTTP status code
  * @param statusText - Status text message
+ * @param headers - Response headers (e.g. Retry-After)
  */
-export function mockFetchErrorResponse(status: number, statusText: string) {
+export function mockFetchErrorResponse(
+  status: number,
+  statusText: string,
+  headers: Record<string, string> = {}
+) {
   (fetch as any).mockResolvedValueOnce({
     ok: false,
     status,
     statusText,
+    headers: new Headers(headers),
     text: () => Promise.resolve(`{"error":"${statusText}"}`),
   });
 }
@@ -57,3 +64,17 @@ export const restoreRealFetch = () => {
 export const clearFetchMocks = () => {
   vi.clearAllMocks();
 };
+
+/**
+ * Helper to setup a fetch that never responds and only settles when its signal is aborted
+ */
+export function mockFetchHanging() {
+  (fetch as any).mockImplementationOnce(
+    (_url: string, init?: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () =>
+          reject(new DOMException("This operation was aborted", "AbortError"))
+        );
+      })
+  );
+}
@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getPreview,
+  NoPreviewAvailableError,
+  SpotifyPreviewClient,
+  SpotifyTimeoutError,
+  verifyPreview,
+} from "../src";
+import { isPreviewUrl } from "../src/utils/verify.utils";
+import {
+  clearFetchMocks,
+  mockFetchNetworkError,
+  mockFetchResponse,
+  setupMockFetch,
+} from "./utils/fetch-mocks";
+import { buildEmbedHtml, trackEntity } from "./utils/embed-fixtures";
+
+setupMockFetch();
+
+const TRACK_ID = "1234567890123456789012";
+const PREVIEW_URL = "https://p.scdn.co/mp3-preview/abc";
+
+/**
+ * Queues a bodiless response with the given status and headers.
+ */
+function mockHeadResponse(status: number, headers: Record<string, string>) {
+  (fetch as any).mockResolvedValueOnce({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    body: null,
+  });
+}
+
+describe("isPreviewUrl", () => {
+  it("should tell preview URLs from Spotify references", () => {
+    expect(isPreviewUrl(PREVIEW_URL)).toBe(true);
+    expect(isPreviewUrl("https://podz-content.spotifycdn.com/clip.mp3")).toBe(
+      true
+    );
+    expect(isPreviewUrl(`https://open.spotify.com/track/${TRACK_ID}`)).toBe(
+      false
+    );
+    expect(isPreviewUrl("https://spotify.link/abc")).toBe(false);
+    expect(isPreviewUrl(`spotify:track:${TRACK_ID}`)).toBe(false);
+    expect(isPreviewUrl(TRACK_ID)).toBe(false);
+  });
+});
+
+describe("verifyPreview", () => {
+  beforeEach(() => {
+    clearFetchMocks();
+  });
+
+  it("should verify a preview URL with a HEAD request", async () => {
+    mockHeadResponse(200, {
+      "Content-Type": "audio/mpeg",
+      "Content-Length": "480000",
+    });
+
+    const result = await verifyPreview(PREVIEW_URL);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith(PREVIEW_URL, { method: "HEAD" });
+    expect(result).toEqual({
+      url: PREVIEW_URL,
+      reachable: true,
+      status: 200,
+      contentType: "audio/mpeg",
+      contentLength: 480000,
+      latencyMs: expect.any(Number),
+    });
+  });
+
+  it("should fall back to a ranged GET when HEAD is not allowed", async () => {
+    mockHeadResponse(405, {});
+    mockHeadResponse(206, {
+      "Content-Type": "audio/mpeg",
+      "Content-Range": "bytes 0-0/480000",
+    });
+
+    const result = await verifyPreview(PREVIEW_URL);
+
+    expect(fetch).toHaveBeenNthCalledWith(2, PREVIEW_URL, {
+      method: "GET",
+      headers: { Range: "bytes=0-0" },
+    });
+    expect(result).toMatchObject({
+      reachable: true,
+      status: 206,
+      contentLength: 480000,
+    });
+  });
+
+  it("should report expired URLs and failed requests as unreachable", async () => {
+    mockHeadResponse(403, { "Content-Type": "application/xml" });
+    mockHeadResponse(200, { "Content-Type": "text/html" });
+    mockFetchNetworkError("Connection reset");
+
+    const forbidden = await verifyPreview(PREVIEW_URL);
+    const notAudio = await verifyPreview(PREVIEW_URL, { method: "GET" });
+    const failed = await verifyPreview(PREVIEW_URL);
+
+    expect(forbidden).toMatchObject({ reachable: false, status: 403 });
+    expect(notAudio).toMatchObject({ reachable: false, status: 200 });
+    expect(failed).toMatchObject({
+      reachable: false,
+      status: null,
+      contentType: null,
+      contentLength: null,
+    });
+  });
+
+  it("should look up the preview of a track first", async () => {
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+    mockHeadResponse(200, { "Content-Type": "audio/mpeg" });
+
+    const result = await verifyPreview(`spotify:track:${TRACK_ID}`);
+
+    expect(fetch).toHaveBeenNthCalledWith(
+      1,
+      `https://open.spotify.com/embed/track/${TRACK_ID}`
+    );
+    expect(result).toMatchObject({ url: PREVIEW_URL, reachable: true });
+  });
+});
+
+describe("getPreview with verify", () => {
+  beforeEach(() => {
+    clearFetchMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should return reachable previews", async () => {
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+    mockHeadResponse(200, { "Content-Type": "audio/mpeg" });
+
+    expect(await getPreview(TRACK_ID, { verify: true })).toBe(PREVIEW_URL);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should verify the preview within the call's timeout", async () => {
+    vi.useFakeTimers();
+    // Each request answers after 80ms, unless it is aborted first
+    (fetch as any).mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((resolve, reject) => {
+          const timer = setTimeout(
+            () =>
+              resolve({
+                ok: true,
+                status: 200,
+                headers: new Headers({ "Content-Type": "audio/mpeg" }),
+                body: null,
+                text: async () => buildEmbedHtml(trackEntity),
+              }),
+            80
+          );
+          init.signal!.addEventListener("abort", () => {
+            clearTimeout(timer);
+            reject(init.signal!.reason);
+          });
+        })
+    );
+
+    const promise = getPreview(TRACK_ID, {
+      verify: true,
+      timeoutMs: 100,
+    }).catch((e) => e);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await promise).toBeInstanceOf(SpotifyTimeoutError);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should treat an unreachable preview as no preview", async () => {
+    const client = new SpotifyPreviewClient();
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+    mockHeadResponse(404, {});
+    mockFetchResponse(buildEmbedHtml(trackEntity));
+    mockHeadResponse(403, {});
+
+    const previewUrl = await client.getPreview(TRACK_ID, { verify: true });
+    const error = await client
+      .getPreview(TRACK_ID, { verify: true, throws: true })
+      .catch((e) => e);
+
+    expect(previewUrl).toBeNull();
+    expect(error).toBeInstanceOf(NoPreviewAvailableError);
+    expect(client.getStats().lookups.noPreview).toBe(2);
+  });
+});
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  PreviewChangeEvent,
+  SpotifyPreviewClient,
+  WatchedPreviewState,
+} from "../src";
+import { clearFetchMocks, setupMockFetch } from "./utils/fetch-mocks";
+import { buildEmbedHtml, trackEntity } from "./utils/embed-fixtures";
+
+setupMockFetch();
+
+const TRACK_A = "1234567890123456789012";
+const TRACK_B = "2234567890123456789012";
+const URL_1 = "https://p.scdn.co/mp3-preview/one";
+const URL_2 = "https://p.scdn.co/mp3-preview/two";
+
+// Current preview of each track, as served by the stand-in fetch
+let previews: Record<string, string | null | Error>;
+
+function serveEmbedPages() {
+  (fetch as any).mockImplementation(async (url: string) => {
+    const preview = previews[url.split("/").pop()!];
+    if (preview instanceof Error) throw preview;
+    return {
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      text: async () =>
+        buildEmbedHtml({
+          ...trackEntity,
+          audioPreview: preview ? { url: preview } : undefined,
+        }),
+    };
+  });
+}
+
+describe("watchPreviews", () => {
+  beforeEach(() => {
+    clearFetchMocks();
+    vi.useFakeTimers();
+    previews = { [TRACK_A]: URL_1, [TRACK_B]: null };
+    serveEmbedPages();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should emit added, removed and changed events on later rounds", async () => {
+    const client = new SpotifyPreviewClient();
+    const events: [string, PreviewChangeEvent][] = [];
+    const watcher = client.watchPreviews([TRACK_A, TRACK_B], {
+      intervalMs: 1000,
+    });
+    for (const name of ["added", "removed", "changed"] as const) {
+      watcher.on(name, (event) => events.push([name, event]));
+    }
+
+    // The first round only records the initial state
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(events).toEqual([]);
+
+    previews = { [TRACK_A]: URL_2, [TRACK_B]: URL_1 };
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetch).toHaveBeenCalledTimes(4);
+    expect(events).toEqual([
+      ["changed", { trackId: TRACK_A, oldUrl: URL_1, newUrl: URL_2 }],
+      ["added", { trackId: TRACK_B, oldUrl: null, newUrl: URL_1 }],
+    ]);
+
+    previews = { [TRACK_A]: null, [TRACK_B]: URL_1 };
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(events[2]).toEqual([
+      "removed",
+      { trackId: TRACK_A, oldUrl: URL_2, newUrl: null },
+    ]);
+
+    await watcher.stop();
+  });
+
+  it("should compare against the state kept in the store", async () => {
+    const client = new SpotifyPreviewClient();
+    const store = new Map<string, WatchedPreviewState>([
+      [TRACK_A, { previewUrl: URL_2, checkedAt: 0 }],
+    ]);
+    const changed = vi.fn();
+
+    const watcher = client.watchPreviews([TRACK_A], { store });
+    watcher.on("changed", changed);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(changed).toHaveBeenCalledWith({
+      trackId: TRACK_A,
+      oldUrl: URL_2,
+      newUrl: URL_1,
+    });
+    expect(store.get(TRACK_A)).toEqual({
+      previewUrl: URL_1,
+      checkedAt: Date.now(),
+    });
+
+    await watcher.stop();
+  });
+
+  it("should report failed checks and keep the last known state", async () => {
+    const client = new SpotifyPreviewClient();
+    const error = vi.fn();
+    const removed = vi.fn();
+    const check = vi.fn();
+    const watcher = client.watchPreviews([TRACK_A], { intervalMs: 1000 });
+    watcher.on("error", error);
+    watcher.on("removed", removed);
+    watcher.on("check", check);
+    await vi.advanceTimersByTimeAsync(0);
+
+    previews = { [TRACK_A]: new Error("Connection reset") };
+    await vi.advanceTimersByTimeAsync(1000);
+    previews = { [TRACK_A]: URL_1 };
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalledWith({
+      trackId: TRACK_A,
+      error: expect.objectContaining({ name: "NetworkError" }),
+    });
+    expect(removed).not.toHaveBeenCalled();
+    expect(check.mock.calls.map(([event]) => event)).toEqual([
+      { checked: 1, changed: 0, failed: 0 },
+      { checked: 1, changed: 0, failed: 1 },
+      { checked: 1, changed: 0, failed: 0 },
+    ]);
+
+    await watcher.stop();
+  });
+
+  it("should stop cleanly, cancelling the round in progress", async () => {
+    const client = new SpotifyPreviewClient();
+    const store = new Map<string, WatchedPreviewState>();
+    (fetch as any).mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal!.addEventListener("abort", () =>
+            reject(init.signal!.reason)
+          );
+        })
+    );
+
+    const watcher = client.watchPreviews([TRACK_A], {
+      intervalMs: 1000,
+      store,
+    });
+    const error = vi.fn();
+    watcher.on("error", error);
+    await vi.advanceTimersByTimeAsync(0);
+    await watcher.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(watcher.running).toBe(false);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(error).not.toHaveBeenCalled();
+    expect(store.size).toBe(0);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});